@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import type { GraphDocument } from '@/graph';
+import { parseDsl, serializeDsl, type DslError, type DslGraph } from '@/graph/formats/dsl';
+import { cn } from '@/lib/utils';
+
+// Пауза в наборе, после которой текст применяется к графу
+const APPLY_DELAY = 400;
+
+type DslEditorProps = {
+  doc: GraphDocument;
+  // Возвращает true, если граф изменился
+  onApply: (graph: DslGraph) => boolean;
+  onClose: () => void;
+};
+
+const DslEditor = ({ doc, onApply, onClose }: DslEditorProps) => {
+  const [text, setText] = useState(() => serializeDsl(doc));
+  const [errors, setErrors] = useState<DslError[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const syncedDocRef = useRef(doc);
+  const appliedRef = useRef(false);
+  const pendingRef = useRef<{ graph: DslGraph; timer: ReturnType<typeof setTimeout> } | null>(null);
+  const onApplyRef = useRef(onApply);
+  onApplyRef.current = onApply;
+
+  const cancelPending = () => {
+    if (pendingRef.current) clearTimeout(pendingRef.current.timer);
+    pendingRef.current = null;
+  };
+
+  const flush = () => {
+    const pending = pendingRef.current;
+    cancelPending();
+    if (pending && onApplyRef.current(pending.graph)) appliedRef.current = true;
+  };
+
+  // Изменения с холста переписывают текст; свои правки текст не трогают
+  useEffect(() => {
+    if (doc === syncedDocRef.current) return;
+    syncedDocRef.current = doc;
+    if (appliedRef.current) {
+      appliedRef.current = false;
+      return;
+    }
+    cancelPending();
+    setText(serializeDsl(doc));
+    setErrors([]);
+  }, [doc]);
+
+  useEffect(() => cancelPending, []);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const result = parseDsl(value, doc.relationTypes);
+    setErrors(result.errors);
+    cancelPending();
+    // С ошибками граф не меняется, чтобы недописанная строка не удалила узлы
+    if (result.errors.length === 0) {
+      pendingRef.current = { graph: result.graph, timer: setTimeout(flush, APPLY_DELAY) };
+    }
+  };
+
+  const goToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = text.split('\n');
+    const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+  };
+
+  const errorLines = new Map(errors.map(e => [e.line, e.message]));
+  const lineCount = text.split('\n').length;
+
+  return (
+    <div className="h-full flex flex-col bg-card">
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <h3 className="font-semibold text-sm">Текст графа</h3>
+        <div className="flex items-center gap-1">
+          <span
+            className={cn('text-xs', errors.length ? 'text-destructive' : 'text-muted-foreground')}
+            title="A -> B — связь, A ~> B — псевдоним, A -[Тип]-> B — связь типа, A: текст — текст узла"
+          >
+            {errors.length ? `Ошибок: ${errors.length}` : 'Синтаксис'}
+          </span>
+          <Button size="icon" variant="ghost" onClick={onClose} className="h-7 w-7" title="Закрыть">
+            <Icon name="X" size={14} />
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 flex font-mono text-xs leading-5">
+        <div
+          ref={gutterRef}
+          className="overflow-hidden select-none border-r bg-muted/40 py-2 text-right text-muted-foreground"
+          aria-hidden
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div
+              key={i}
+              className={cn('px-2', errorLines.has(i + 1) && 'bg-destructive/15 text-destructive')}
+              title={errorLines.get(i + 1)}
+            >
+              {i + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          onBlur={flush}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          wrap="off"
+          spellCheck={false}
+          placeholder={'Идея -> Развитие\nИдея ~> Синоним\nИдея: Подробный текст'}
+          className="flex-1 min-w-0 resize-none bg-transparent px-2 py-2 outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+      {errors.length > 0 && (
+        <div className="max-h-32 overflow-y-auto border-t px-3 py-2 space-y-1">
+          {errors.map(error => (
+            <button
+              key={error.line}
+              onClick={() => goToLine(error.line)}
+              className="flex w-full gap-2 text-left text-xs text-destructive hover:underline"
+            >
+              <span className="flex-shrink-0 font-mono">Строка {error.line}:</span>
+              <span>{error.message}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DslEditor;
@@ -0,0 +1,158 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import Icon from '@/components/ui/icon';
+import RelationTypePicker from '@/components/RelationTypePicker';
+import {
+  WIKI_RELATION,
+  nodeTitle,
+  type EdgeKind,
+  type EdgeRouting,
+  type EdgeType,
+  type NodeType,
+  type RelationType,
+} from '@/graph';
+
+const ROUTINGS: { value: EdgeRouting; label: string; icon: string }[] = [
+  { value: 'straight', label: 'Прямая', icon: 'Slash' },
+  { value: 'bezier', label: 'Кривая', icon: 'Spline' },
+  { value: 'orthogonal', label: 'Ломаная', icon: 'CornerDownRight' },
+];
+
+type EdgeInspectorProps = {
+  edge: EdgeType;
+  types: readonly RelationType[];
+  fromNode?: NodeType;
+  toNode?: NodeType;
+  onChangeLabel: (label: string) => void;
+  onChangeNotes: (notes: string) => void;
+  onChangeType: (type: EdgeKind) => void;
+  onChangeRouting: (routing: EdgeRouting) => void;
+  onReverse: () => void;
+  onSelectNode: (id: string) => void;
+  onDelete: () => void;
+  onClose: () => void;
+};
+
+const EdgeInspector = ({
+  edge,
+  types,
+  fromNode,
+  toNode,
+  onChangeLabel,
+  onChangeNotes,
+  onChangeType,
+  onChangeRouting,
+  onReverse,
+  onSelectNode,
+  onDelete,
+  onClose,
+}: EdgeInspectorProps) => {
+  const endpoint = (id: string, node?: NodeType) => (
+    <button
+      onClick={() => onSelectNode(id)}
+      className="flex-1 min-w-0 p-2 rounded bg-secondary text-left text-xs hover:bg-secondary/70"
+    >
+      <span className="block truncate">{node?.text || 'Без текста'}</span>
+    </button>
+  );
+
+  // Вики-связи следуют за текстом узла, поэтому тип и направление у них не меняются
+  const derived = edge.type === WIKI_RELATION;
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-3 md:mb-4">
+          <h3 className="font-semibold text-sm md:text-base">Связь</h3>
+          <div className="flex gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={onDelete}
+              disabled={derived}
+              className="h-8 w-8"
+              title="Удалить связь"
+            >
+              <Icon name="Trash2" size={18} />
+            </Button>
+            <Button size="icon" variant="ghost" onClick={onClose} className="h-8 w-8" title="Снять выделение">
+              <Icon name="X" size={18} />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="edge-label" className="text-xs">Подпись</Label>
+          <Input
+            id="edge-label"
+            value={edge.label ?? ''}
+            onChange={(e) => onChangeLabel(e.target.value)}
+            placeholder="Например, «зависит от»"
+            className="h-9 text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Тип</h3>
+        {derived ? (
+          <p className="text-xs text-muted-foreground">
+            Вики-ссылка: связь создана ссылкой [[…]] в тексте узла «{(fromNode && nodeTitle(fromNode)) || 'Без текста'}» и исчезнет
+            вместе с ней.
+          </p>
+        ) : (
+          <RelationTypePicker types={types} value={edge.type} onChange={onChangeType} />
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Маршрут</h3>
+        <div className="flex gap-2">
+          {ROUTINGS.map(({ value, label, icon }) => (
+            <Button
+              key={value}
+              onClick={() => onChangeRouting(value)}
+              variant={(edge.routing ?? 'straight') === value ? 'secondary' : 'outline'}
+              size="sm"
+              className={`flex-1 h-9 text-xs ${(edge.routing ?? 'straight') === value ? 'ring-1 ring-primary' : ''}`}
+            >
+              <Icon name={icon} size={14} className="mr-1" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Направление</h3>
+        <div className="flex items-center gap-2">
+          {endpoint(edge.from, fromNode)}
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={onReverse}
+            disabled={derived}
+            className="h-8 w-8 flex-shrink-0"
+            title="Развернуть"
+          >
+            <Icon name="ArrowRight" size={14} />
+          </Button>
+          {endpoint(edge.to, toNode)}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Заметки</h3>
+        <Textarea
+          value={edge.notes ?? ''}
+          onChange={(e) => onChangeNotes(e.target.value)}
+          className="min-h-[100px] text-sm"
+          placeholder="Пояснение к связи..."
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EdgeInspector;
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import Icon from '@/components/ui/icon';
+import type { NodeType } from '@/graph';
+
+type EdgeTargetPickerProps = {
+  nodes: readonly NodeType[];
+  onSelect: (nodeId: string) => void;
+  disabled?: boolean;
+};
+
+const EdgeTargetPicker = ({ nodes, onSelect, disabled }: EdgeTargetPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled || nodes.length === 0}
+          className="w-full h-9 justify-between text-xs md:text-sm font-normal"
+        >
+          {nodes.length === 0 ? 'Нет других узлов' : 'Выберите узел…'}
+          <Icon name="ChevronsUpDown" size={14} className="ml-2 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Поиск узла..." />
+          <CommandList>
+            <CommandEmpty>Узлы не найдены</CommandEmpty>
+            <CommandGroup>
+              {nodes.map((node) => (
+                <CommandItem
+                  key={node.id}
+                  value={`${node.text} ${node.id}`}
+                  onSelect={() => {
+                    onSelect(node.id);
+                    setOpen(false);
+                  }}
+                >
+                  <span className="truncate">{node.text || 'Без текста'}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default EdgeTargetPicker;
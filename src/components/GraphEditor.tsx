@@ -1,118 +1,512 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Card } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import Icon from '@/components/ui/icon';
 import { toast } from 'sonner';
+import DslEditor from '@/components/DslEditor';
+import EdgeInspector from '@/components/EdgeInspector';
+import EdgeTargetPicker from '@/components/EdgeTargetPicker';
+import GraphFileMenu from '@/components/GraphFileMenu';
+import LayoutPopover from '@/components/LayoutPopover';
+import Markdown from '@/components/Markdown';
+import MarkdownEditor from '@/components/MarkdownEditor';
+import NeighborhoodPanel from '@/components/NeighborhoodPanel';
+import NodeStyleEditor from '@/components/NodeStyleEditor';
+import RelationMarkers from '@/components/RelationMarkers';
+import RelationTypePicker from '@/components/RelationTypePicker';
+import RelationTypesDialog from '@/components/RelationTypesDialog';
+import SelectionPanel from '@/components/SelectionPanel';
+import { useGraphPersistence } from '@/hooks/use-graph-persistence';
+import { useGraphStore } from '@/hooks/use-graph-store';
+import { useLayoutAnimation } from '@/hooks/use-layout-animation';
+import { useNodeSizes } from '@/hooks/use-node-sizes';
+import { reportFileError, reportImportWarnings } from '@/lib/graph-files';
+import { toggleTask } from '@/lib/markdown';
+import { DEFAULT_NODE_SHAPE, SHAPE_CLASSES, SHAPE_CONTENT_CLASSES, STICKY_FILL, groupBackground } from '@/lib/node-style';
+import { RELATION_PALETTE, relationStroke } from '@/lib/relation-style';
+import {
+  ALIAS_RELATION,
+  WIKI_RELATION,
+  batchCommands,
+  NODE_HEIGHT,
+  PRIMARY_RELATION,
+  boundaryPoint,
+  connect,
+  createNode,
+  createRelationType,
+  extractSubgraph,
+  filterDocument,
+  findEdge,
+  computeLayout,
+  indexGraph,
+  insertNodes,
+  insertRelationType,
+  instantiateSubgraph,
+  isBuiltinRelation,
+  nodesInRect,
+  nodeBox,
+  nodeSize,
+  nodeTitle,
+  normalizeRect,
+  parseSubgraph,
+  resizeBox,
+  removeEdges,
+  removeNodes,
+  removeRelationType,
+  relationUsage,
+  reverseEdge,
+  routeEdges,
+  serializeSubgraph,
+  titleIndex,
+  titleKey,
+  updateEdge,
+  updateNode,
+  updateNodes,
+  updateRelationType,
+  withWikiLinks,
+  type Box,
+  type Corner,
+  type EdgeKind,
+  type EdgeRouting,
+  type EdgeType,
+  type LayoutRequest,
+  type NodeChanges,
+  type RelationTypeChanges,
+  type Subgraph,
+  type GraphDocument,
+  type GraphHistory,
+  type Viewport,
+} from '@/graph';
+import type { ImportedGraph } from '@/graph/formats/common';
+import { applyDsl, type DslGraph } from '@/graph/formats/dsl';
+import { importMermaid, isMermaidSource } from '@/graph/formats/mermaid';
+import { importOutline, isOutlineSource } from '@/graph/formats/outline';
 
-export type NodeType = {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-};
+const PASTE_OFFSET = 30;
+
+// Горячие клавиши и буфер обмена не действуют на граф из полей ввода и открытых диалогов
+const OWN_KEYS_TARGETS = 'input, textarea, [contenteditable="true"], [role="dialog"], [role="alertdialog"]';
+
+const RESIZE_CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
 
-export type EdgeType = {
-  id: string;
-  from: string;
-  to: string;
-  type: 'primary' | 'alias';
+const CORNER_CLASSES: Record<Corner, string> = {
+  nw: '-left-1.5 -top-1.5 cursor-nwse-resize',
+  ne: '-right-1.5 -top-1.5 cursor-nesw-resize',
+  sw: '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+  se: '-right-1.5 -bottom-1.5 cursor-nwse-resize',
 };
 
-const GraphEditor = () => {
-  const [nodes, setNodes] = useState<NodeType[]>([
-    { id: '1', text: 'Начальная идея', x: 200, y: 150 },
-    { id: '2', text: 'Развитие концепции', x: 450, y: 150 },
-    { id: '3', text: 'Альтернативный подход', x: 325, y: 300 },
-  ]);
+type GraphEditorProps = {
+  graphId: string;
+};
 
-  const [edges, setEdges] = useState<EdgeType[]>([
-    { id: 'e1', from: '1', to: '2', type: 'primary' },
-    { id: 'e2', from: '2', to: '3', type: 'alias' },
-  ]);
+const GraphEditor = ({ graphId }: GraphEditorProps) => {
+  const { doc, history, dispatch, undo, redo, seal, reset, canUndo, canRedo } = useGraphStore();
+  const { nodes } = doc;
 
-  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [selection, setSelection] = useState<ReadonlySet<string>>(new Set());
+  const [selectedEdge, setSelectedEdge] = useState<string | null>(null);
   const [editingNode, setEditingNode] = useState<string | null>(null);
+  const [editingEdge, setEditingEdge] = useState<string | null>(null);
+  const [hoveredEdge, setHoveredEdge] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [dragNode, setDragNode] = useState<string | null>(null);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [drag, setDrag] = useState<{
+    clientX: number;
+    clientY: number;
+    origins: Map<string, { x: number; y: number }>;
+    key: string;
+  } | null>(null);
+  const [marquee, setMarquee] = useState<{
+    start: { x: number; y: number };
+    end: { x: number; y: number };
+    additive: boolean;
+  } | null>(null);
+  const [resize, setResize] = useState<{
+    id: string;
+    corner: Corner;
+    clientX: number;
+    clientY: number;
+    origin: Box;
+    key: string;
+  } | null>(null);
+  const [marqueeMode, setMarqueeMode] = useState(false);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [isMobile] = useState(window.innerWidth < 768);
   const [showSidebar, setShowSidebar] = useState(false);
+  const [showDsl, setShowDsl] = useState(false);
   const [lastTap, setLastTap] = useState(0);
+  const [linkType, setLinkType] = useState<EdgeKind>(PRIMARY_RELATION);
+  const [connecting, setConnecting] = useState<{
+    from: string;
+    x: number;
+    y: number;
+    target: string | null;
+  } | null>(null);
+
+  const selectedNode = selection.size === 1 ? [...selection][0] : null;
+  const select = (ids: Iterable<string>) => {
+    setSelection(new Set(ids));
+    setSelectedEdge(null);
+  };
+  const selectEdge = (id: string) => {
+    setSelection(new Set());
+    setSelectedEdge(id);
+    if (isMobile) setShowSidebar(true);
+  };
 
   const canvasRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
 
-  const addNode = () => {
-    const newNode: NodeType = {
-      id: Date.now().toString(),
-      text: 'Новый узел',
-      x: 300 + Math.random() * 100,
-      y: 200 + Math.random() * 100,
+  const layout = useLayoutAnimation();
+  const { sizes, measure } = useNodeSizes();
+  const viewport = useMemo<Viewport>(() => ({ pan, zoom }), [pan, zoom]);
+
+  const restoreGraph = (restored: { doc: GraphDocument; history: GraphHistory; viewport: Viewport }) => {
+    reset(restored.doc, restored.history);
+    setPan(restored.viewport.pan);
+    setZoom(restored.viewport.zoom);
+    select([]);
+    setEditingNode(null);
+    setEditingEdge(null);
+  };
+
+  const {
+    ready,
+    missing,
+    name,
+    createdAt,
+    saveStatus,
+    recovery,
+    acceptRecovery,
+    discardRecovery,
+  } = useGraphPersistence(graphId, { doc, history, viewport }, restoreGraph);
+
+  const undoRef = useRef(undo);
+  const redoRef = useRef(redo);
+  const deleteSelectionRef = useRef(() => {});
+  const selectAllRef = useRef(() => {});
+  const duplicateRef = useRef(() => {});
+  const copyRef = useRef<(clipboard: DataTransfer) => boolean>(() => false);
+  const cutRef = useRef<(clipboard: DataTransfer) => boolean>(() => false);
+  const pasteRef = useRef<(clipboard: DataTransfer) => boolean>(() => false);
+  const pasteCountRef = useRef(0);
+  // Для обработчиков, которые срабатывают позже рендера, например по окончании анимации
+  const docRef = useRef(doc);
+  undoRef.current = undo;
+  redoRef.current = redo;
+  docRef.current = doc;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest?.(OWN_KEYS_TARGETS)) return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelectionRef.current();
+        return;
+      }
+      if (e.key === 'Escape') {
+        setSelection(new Set());
+        setSelectedEdge(null);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'a') {
+        e.preventDefault();
+        selectAllRef.current();
+      } else if (key === 'd') {
+        e.preventDefault();
+        duplicateRef.current();
+      } else if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoRef.current();
+      }
     };
-    setNodes([...nodes, newNode]);
-    setSelectedNode(newNode.id);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Буфер обмена работает через нативные события, чтобы не требовать разрешений браузера
+  useEffect(() => {
+    const handlers = { copy: copyRef, cut: cutRef, paste: pasteRef };
+    const listeners = Object.entries(handlers).map(([type, ref]) => {
+      const listener = (e: ClipboardEvent) => {
+        const target = e.target as HTMLElement;
+        if (target.closest?.(OWN_KEYS_TARGETS) || !e.clipboardData) return;
+        if (ref.current(e.clipboardData)) e.preventDefault();
+      };
+      document.addEventListener(type as 'copy', listener);
+      return () => document.removeEventListener(type as 'copy', listener);
+    });
+    return () => listeners.forEach(remove => remove());
+  }, []);
+
+  const addNode = () => {
+    const newNode = createNode('Новый узел', 300 + Math.random() * 100, 200 + Math.random() * 100);
+    dispatch('Создание узла', insertNodes([newNode]));
+    select([newNode.id]);
     setEditingNode(newNode.id);
     toast.success('Узел создан');
   };
 
-  const deleteNode = (id: string) => {
-    setNodes(nodes.filter(n => n.id !== id));
-    setEdges(edges.filter(e => e.from !== id && e.to !== id));
-    setSelectedNode(null);
+  const deleteNodes = (ids: ReadonlySet<string>) => {
+    if (ids.size === 0) return;
+    dispatch(ids.size === 1 ? 'Удаление узла' : 'Удаление узлов', withWikiLinks(doc, removeNodes(doc, ids)));
+    select([]);
     setEditingNode(null);
-    toast.success('Узел удалён');
+    toast.success(ids.size === 1 ? 'Узел удалён' : `Удалено узлов: ${ids.size}`, {
+      action: { label: 'Отменить', onClick: () => undoRef.current() },
+    });
+  };
+
+  const insertSubgraph = (label: string, subgraph: Subgraph, offset: { x: number; y: number }) => {
+    const copy = instantiateSubgraph(doc, subgraph, offset);
+    if (!dispatch(label, withWikiLinks(doc, insertNodes(copy.nodes, copy.edges, copy.relationTypes)))) return;
+    select(copy.nodes.map(n => n.id));
+    toast.success(`${label}: ${copy.nodes.length} узл.`);
+  };
+
+  const duplicateSelection = () => {
+    if (selection.size === 0) return;
+    insertSubgraph('Дублирование', extractSubgraph(doc, selection), { x: PASTE_OFFSET, y: PASTE_OFFSET });
+  };
+
+  const copySelection = (clipboard: DataTransfer) => {
+    if (selection.size === 0) return false;
+    clipboard.setData('text/plain', serializeSubgraph(extractSubgraph(doc, selection)));
+    pasteCountRef.current = 0;
+    return true;
+  };
+
+  deleteSelectionRef.current = () => (selectedEdge ? deleteEdge(selectedEdge) : deleteNodes(selection));
+  selectAllRef.current = () => select(nodes.map(n => n.id));
+  duplicateRef.current = duplicateSelection;
+  copyRef.current = (clipboard) => {
+    if (!copySelection(clipboard)) return false;
+    toast.success(`Скопировано узлов: ${selection.size}`);
+    return true;
+  };
+  cutRef.current = (clipboard) => {
+    if (!copySelection(clipboard)) return false;
+    deleteNodes(selection);
+    return true;
+  };
+  // Диаграмма Mermaid или план из буфера раскладываются заново и встают в центр видимой области
+  const pasteImported = (label: string, parse: () => ImportedGraph) => {
+    try {
+      const { doc: imported, warnings } = parse();
+      if (imported.nodes.length === 0) return;
+      const rect = canvasRef.current!.getBoundingClientRect();
+      const center = toWorld(rect.left + rect.width / 2, rect.top + rect.height / 2);
+      const boxes = imported.nodes.map(n => nodeBox(n));
+      const left = Math.min(...boxes.map(b => b.x));
+      const top = Math.min(...boxes.map(b => b.y));
+      const right = Math.max(...boxes.map(b => b.x + b.width));
+      const bottom = Math.max(...boxes.map(b => b.y + b.height));
+      const subgraph = { nodes: [...imported.nodes], edges: [...imported.edges], relationTypes: [...imported.relationTypes] };
+      insertSubgraph(label, subgraph, {
+        x: Math.round(center.x - (left + right) / 2),
+        y: Math.round(center.y - (top + bottom) / 2),
+      });
+      reportImportWarnings(warnings);
+    } catch (error) {
+      reportFileError(error);
+    }
+  };
+
+  pasteRef.current = (clipboard) => {
+    const text = clipboard.getData('text/plain');
+    const subgraph = parseSubgraph(text);
+    if (!subgraph || subgraph.nodes.length === 0) {
+      if (isMermaidSource(text)) pasteImported('Вставка Mermaid', () => importMermaid(text, doc.relationTypes));
+      else if (isOutlineSource(text)) pasteImported('Вставка списка', () => importOutline(text));
+      else return false;
+      return true;
+    }
+    // Повторная вставка смещается дальше, чтобы копии не накладывались
+    pasteCountRef.current += 1;
+    const offset = PASTE_OFFSET * pasteCountRef.current;
+    insertSubgraph('Вставка', subgraph, { x: offset, y: offset });
+    return true;
   };
 
   const updateNodeText = (id: string, text: string) => {
-    setNodes(nodes.map(n => n.id === id ? { ...n, text } : n));
+    dispatch('Изменение текста', withWikiLinks(doc, updateNode(doc, id, { text })), { coalesceKey: `text:${id}` });
   };
 
-  const addEdge = (type: 'primary' | 'alias') => {
-    if (!selectedNode) return;
-    
-    const otherNodes = nodes.filter(n => n.id !== selectedNode);
-    if (otherNodes.length === 0) {
-      toast.error('Нужен ещё один узел для создания связи');
+  const toggleNodeTask = (id: string, line: number) => {
+    const node = indexGraph(doc).nodeById.get(id);
+    if (!node) return;
+    dispatch('Отметка задачи', withWikiLinks(doc, updateNode(doc, id, { text: toggleTask(node.text, line) })));
+  };
+
+  // Новый узел появляется справа от того, в тексте которого на него сослались
+  const createLinkedNode = (sourceId: string, title: string, text: string) => {
+    const source = indexGraph(doc).nodeById.get(sourceId);
+    if (!source) return;
+    const target = createNode(title, source.x + nodeSize(source).width + 80, source.y);
+    const command = batchCommands([insertNodes([target]), updateNode(doc, sourceId, { text })]);
+    if (!dispatch('Создание узла по ссылке', withWikiLinks(doc, command))) return;
+    toast.success(`Узел «${title}» создан`);
+  };
+
+  // Выделяет узел и сдвигает холст так, чтобы он оказался в центре
+  const focusNode = (id: string) => {
+    const node = indexGraph(doc).nodeById.get(id);
+    const canvas = canvasRef.current;
+    if (!node || !canvas) return;
+    const { width, height } = sizes.get(id) ?? nodeSize(node);
+    const rect = canvas.getBoundingClientRect();
+    setPan({
+      x: -(node.x + width / 2 - rect.width / 2) * zoom,
+      y: -(node.y + height / 2 - rect.height / 2) * zoom,
+    });
+    select([id]);
+  };
+
+  const openWikiLink = (target: string) => {
+    const node = titles.get(titleKey(target));
+    if (node) focusNode(node.id);
+    else toast.error(`Узел «${target}» не найден`);
+  };
+
+  const updateNodeStyle = (id: string, changes: NodeChanges) => {
+    dispatch('Оформление узла', updateNode(doc, id, changes), {
+      coalesceKey: `style:${id}:${Object.keys(changes).join()}`,
+    });
+  };
+
+  const addEdge = (from: string, to: string, type: EdgeKind) => {
+    if (from === to) return;
+    if (findEdge(doc, from, to, type)) {
+      toast.error('Такая связь уже существует');
       return;
     }
 
-    const targetNode = otherNodes[0];
-    const newEdge: EdgeType = {
-      id: Date.now().toString(),
-      from: selectedNode,
-      to: targetNode.id,
-      type,
-    };
-    setEdges([...edges, newEdge]);
-    toast.success(`Связь ${type === 'primary' ? 'основная' : 'псевдоним'} создана`);
+    if (!dispatch('Создание связи', connect(from, to, type))) return;
+    toast.success(`Связь «${indexGraph(doc).relationById.get(type)?.name ?? type}» создана`);
   };
 
   const deleteEdge = (id: string) => {
-    setEdges(edges.filter(e => e.id !== id));
-    toast.success('Связь удалена');
+    if (indexGraph(doc).edgeById.get(id)?.type === WIKI_RELATION) {
+      toast.error('Связь создана ссылкой в тексте узла — удалите ссылку, чтобы убрать её');
+      return;
+    }
+    dispatch('Удаление связи', removeEdges(doc, [id]));
+    if (selectedEdge === id) setSelectedEdge(null);
+    toast.success('Связь удалена', { action: { label: 'Отменить', onClick: () => undoRef.current() } });
   };
 
-  const filteredNodes = nodes.filter(node =>
-    node.text.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const updateEdgeLabel = (id: string, label: string) => {
+    dispatch('Изменение подписи', updateEdge(doc, id, { label }), { coalesceKey: `label:${id}` });
+  };
+
+  const updateEdgeNotes = (id: string, notes: string) => {
+    dispatch('Изменение заметок', updateEdge(doc, id, { notes }), { coalesceKey: `notes:${id}` });
+  };
+
+  const changeEdgeType = (edge: EdgeType, type: EdgeKind) => {
+    if (edge.type === type) return;
+    if (findEdge(doc, edge.from, edge.to, type)) {
+      toast.error('Такая связь уже существует');
+      return;
+    }
+    dispatch('Изменение типа связи', updateEdge(doc, edge.id, { type }));
+  };
+
+  const changeEdgeRouting = (id: string, routing: EdgeRouting) => {
+    dispatch('Изменение маршрута', updateEdge(doc, id, { routing }));
+  };
+
+  const flipEdge = (edge: EdgeType) => {
+    if (findEdge(doc, edge.to, edge.from, edge.type)) {
+      toast.error('Обратная связь уже существует');
+      return;
+    }
+    dispatch('Разворот связи', reverseEdge(doc, edge));
+  };
+
+  const applyDslText = (graph: DslGraph) =>
+    dispatch('Правка текста графа', withWikiLinks(doc, applyDsl(doc, graph)));
+
+  const addRelationType = () => {
+    const count = doc.relationTypes.length;
+    const type = createRelationType(`Тип ${count + 1}`, RELATION_PALETTE[count % RELATION_PALETTE.length]);
+    dispatch('Добавление типа связи', insertRelationType(type));
+  };
+
+  const changeRelationType = (id: string, changes: RelationTypeChanges) => {
+    dispatch('Настройка типа связи', updateRelationType(doc, id, changes), {
+      coalesceKey: `relation:${id}:${Object.keys(changes).join()}`,
+    });
+  };
+
+  const deleteRelationType = (id: string) => {
+    if (isBuiltinRelation(id)) return;
+    const count = relationUsage(doc).get(id) ?? 0;
+    if (!dispatch('Удаление типа связи', removeRelationType(doc, id))) return;
+    if (linkType === id) setLinkType(PRIMARY_RELATION);
+    toast.success(count > 0 ? `Тип удалён вместе со связями: ${count}` : 'Тип удалён', {
+      action: { label: 'Отменить', onClick: () => undoRef.current() },
+    });
+  };
+
+  const setPinned = (ids: Iterable<string>, pinned: boolean) => {
+    const changes = new Map([...ids].map(id => [id, { pinned }]));
+    dispatch(pinned ? 'Закрепление узлов' : 'Открепление узлов', updateNodes(doc, changes));
+  };
+
+  const arrange = (request: LayoutRequest) => {
+    if (nodes.length < 2) return;
+    const target = computeLayout(doc, request);
+    layout.animate(doc, target, () => {
+      dispatch('Раскладка', updateNodes(docRef.current, target));
+    });
+  };
 
-  const filteredEdges = searchQuery 
-    ? edges.filter(edge => 
-        filteredNodes.some(n => n.id === edge.from) && 
-        filteredNodes.some(n => n.id === edge.to)
-      )
-    : edges;
+  // Во время анимации раскладки рисуются промежуточные позиции
+  const view = layout.apply(doc);
+  const filtered = useMemo(() => filterDocument(view, searchQuery), [view, searchQuery]);
+  const { nodes: filteredNodes, edges: filteredEdges } = filtered;
+  const routes = useMemo(() => routeEdges(filtered, sizes), [filtered, sizes]);
+  // Группы рисуются первыми, чтобы оказаться под своими узлами
+  const layeredNodes = useMemo(
+    () => [...filteredNodes.filter(n => n.shape === 'group'), ...filteredNodes.filter(n => n.shape !== 'group')],
+    [filteredNodes]
+  );
+  const { nodeById, edgeById, relationById } = indexGraph(view);
+  const titles = useMemo(() => titleIndex(doc), [doc]);
+  // Подсказки для [[ссылок]]: заголовки всех узлов, кроме редактируемого
+  const linkSuggestions = useMemo(
+    () => [...new Set(nodes.filter(n => n.id !== selectedNode).map(nodeTitle).filter(Boolean))],
+    [nodes, selectedNode]
+  );
 
   const handleNodePointerDown = (e: React.PointerEvent, nodeId: string) => {
-    const node = nodes.find(n => n.id === nodeId);
-    if (!node) return;
+    const node = nodeById.get(nodeId);
+    if (!node || layout.animating) return;
 
     const clientX = e.clientX || (e as any).touches?.[0]?.clientX || 0;
     const clientY = e.clientY || (e as any).touches?.[0]?.clientY || 0;
@@ -126,15 +520,69 @@ const GraphEditor = () => {
       return;
     }
     setLastTap(currentTime);
+    e.stopPropagation();
+
+    if (e.shiftKey) {
+      const next = new Set(selection);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      setSelection(next);
+      return;
+    }
 
-    setDragNode(nodeId);
-    setSelectedNode(nodeId);
+    // Перетаскивание выделенного узла двигает всю группу
+    const group = selection.has(nodeId) ? selection : new Set([nodeId]);
+    if (!selection.has(nodeId)) setSelection(group);
     if (isMobile) setShowSidebar(true);
-    setDragOffset({
-      x: (clientX - pan.x) / zoom - node.x,
-      y: (clientY - pan.y) / zoom - node.y,
+    setDrag({
+      clientX,
+      clientY,
+      origins: new Map(
+        [...group].flatMap(id => {
+          const n = nodeById.get(id);
+          return n ? [[id, { x: n.x, y: n.y }] as const] : [];
+        })
+      ),
+      key: `move:${Date.now()}`,
     });
+  };
+
+  // Слои холста масштабируются относительно своего центра
+  const toWorld = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const cx = rect.width / 2;
+    const cy = rect.height / 2;
+    return {
+      x: (clientX - rect.left - cx - pan.x) / zoom + cx,
+      y: (clientY - rect.top - cy - pan.y) / zoom + cy,
+    };
+  };
+
+  const nodeIdAt = (clientX: number, clientY: number) => {
+    const element = document.elementFromPoint(clientX, clientY);
+    return element?.closest<HTMLElement>('.graph-node')?.dataset.nodeId ?? null;
+  };
+
+  const handleConnectPointerDown = (e: React.PointerEvent, nodeId: string) => {
     e.stopPropagation();
+    setConnecting({ from: nodeId, ...toWorld(e.clientX, e.clientY), target: null });
+  };
+
+  const handleResizePointerDown = (e: React.PointerEvent, nodeId: string, corner: Corner) => {
+    const node = nodeById.get(nodeId);
+    if (!node || layout.animating) return;
+    e.stopPropagation();
+    // Высота узла без явного размера определяется текстом, поэтому берётся с экрана
+    const element = (e.currentTarget as HTMLElement).closest<HTMLElement>('.graph-node');
+    const { width, height } = nodeSize(node);
+    setResize({
+      id: nodeId,
+      corner,
+      clientX: e.clientX,
+      clientY: e.clientY,
+      origin: { x: node.x, y: node.y, width, height: node.height ?? element?.offsetHeight ?? height },
+      key: `resize:${Date.now()}`,
+    });
   };
 
   const handleCanvasPointerDown = (e: React.PointerEvent) => {
@@ -143,9 +591,15 @@ const GraphEditor = () => {
     const clientX = e.clientX || (e as any).touches?.[0]?.clientX || 0;
     const clientY = e.clientY || (e as any).touches?.[0]?.clientY || 0;
 
+    if (e.shiftKey || marqueeMode) {
+      const point = toWorld(clientX, clientY);
+      setMarquee({ start: point, end: point, additive: e.shiftKey });
+      return;
+    }
+
     setIsPanning(true);
     setPanStart({ x: clientX - pan.x, y: clientY - pan.y });
-    setSelectedNode(null);
+    select([]);
     if (isMobile) setShowSidebar(false);
   };
 
@@ -153,10 +607,32 @@ const GraphEditor = () => {
     const clientX = e.clientX || (e as any).touches?.[0]?.clientX || 0;
     const clientY = e.clientY || (e as any).touches?.[0]?.clientY || 0;
 
-    if (dragNode) {
-      const newX = (clientX - pan.x) / zoom - dragOffset.x;
-      const newY = (clientY - pan.y) / zoom - dragOffset.y;
-      setNodes(nodes.map(n => n.id === dragNode ? { ...n, x: newX, y: newY } : n));
+    if (connecting) {
+      const target = nodeIdAt(clientX, clientY);
+      setConnecting({
+        ...connecting,
+        ...toWorld(clientX, clientY),
+        target: target !== connecting.from ? target : null,
+      });
+    } else if (marquee) {
+      setMarquee({ ...marquee, end: toWorld(clientX, clientY) });
+    } else if (resize) {
+      const dx = (clientX - resize.clientX) / zoom;
+      const dy = (clientY - resize.clientY) / zoom;
+      dispatch('Изменение размера', updateNode(doc, resize.id, resizeBox(resize.origin, resize.corner, dx, dy)), {
+        coalesceKey: resize.key,
+        coalesceWindow: Infinity,
+      });
+    } else if (drag) {
+      const dx = (clientX - drag.clientX) / zoom;
+      const dy = (clientY - drag.clientY) / zoom;
+      const changes = new Map(
+        [...drag.origins].map(([id, origin]) => [id, { x: origin.x + dx, y: origin.y + dy }])
+      );
+      dispatch(changes.size === 1 ? 'Перемещение узла' : 'Перемещение узлов', updateNodes(doc, changes), {
+        coalesceKey: drag.key,
+        coalesceWindow: Infinity,
+      });
     } else if (isPanning) {
       setPan({
         x: clientX - panStart.x,
@@ -165,8 +641,23 @@ const GraphEditor = () => {
     }
   };
 
-  const handlePointerUp = () => {
-    setDragNode(null);
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (connecting) {
+      const target = nodeIdAt(e.clientX, e.clientY);
+      if (target && target !== connecting.from) {
+        addEdge(connecting.from, target, e.altKey ? ALIAS_RELATION : linkType);
+      }
+      setConnecting(null);
+    }
+    if (marquee) {
+      const hits = nodesInRect(view, normalizeRect(marquee.start, marquee.end));
+      select(marquee.additive ? [...selection, ...hits] : hits);
+      if (isMobile && hits.length > 0) setShowSidebar(true);
+      setMarquee(null);
+    }
+    if (drag || resize) seal();
+    setDrag(null);
+    setResize(null);
     setIsPanning(false);
   };
 
@@ -176,22 +667,98 @@ const GraphEditor = () => {
     setZoom(prev => Math.min(Math.max(prev * delta, 0.5), 2));
   };
 
-  const selectedNodeData = nodes.find(n => n.id === selectedNode);
-  const selectedNodeEdges = edges.filter(e => e.from === selectedNode || e.to === selectedNode);
+  const selectedNodeData = selectedNode ? nodeById.get(selectedNode) : undefined;
+  const selectedEdgeData = selectedEdge ? edgeById.get(selectedEdge) : undefined;
+  const hoveredEdgeData = hoveredEdge ? edgeById.get(hoveredEdge) : undefined;
+  const connectingFrom = connecting && nodeById.get(connecting.from);
+  const connectingStart = connecting && connectingFrom
+    && boundaryPoint(connectingFrom, nodeBox(connectingFrom, sizes.get(connectingFrom.id)), connecting);
+
+  if (missing) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">Граф не найден</p>
+        <Button asChild variant="outline">
+          <Link to="/">К списку графов</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!ready && saveStatus !== 'error') {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background">
+        <Icon name="Loader2" size={24} className="animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
 
   return (
     <div className="h-screen flex flex-col bg-background">
       <header className="border-b bg-card px-3 md:px-6 py-3 md:py-4 flex items-center justify-between gap-2">
         <div className="flex items-center gap-2 md:gap-3 min-w-0">
+          <Button asChild size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0" title="К списку графов">
+            <Link to="/">
+              <Icon name="ArrowLeft" size={18} />
+            </Link>
+          </Button>
           <Icon name="Network" size={20} className="text-primary flex-shrink-0 md:w-6 md:h-6" />
-          <h1 className="text-base md:text-xl font-semibold truncate">Графовый редактор</h1>
+          <h1 className="text-base md:text-xl font-semibold truncate">{name || 'Графовый редактор'}</h1>
         </div>
         <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
+          <span
+            className="hidden sm:flex items-center gap-1 text-xs text-muted-foreground mr-1"
+            title={saveStatus === 'error' ? 'Ошибка сохранения' : undefined}
+          >
+            <Icon
+              name={saveStatus === 'saved' ? 'Check' : saveStatus === 'pending' ? 'CloudUpload' : 'CloudOff'}
+              size={14}
+            />
+            {saveStatus === 'saved' ? 'Сохранено' : saveStatus === 'pending' ? 'Сохранение…' : 'Не сохранено'}
+          </span>
+          <Button
+            onClick={undo}
+            disabled={!canUndo}
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 md:h-9 md:w-9"
+            title="Отменить (Ctrl+Z)"
+          >
+            <Icon name="Undo2" size={16} />
+          </Button>
+          <Button
+            onClick={redo}
+            disabled={!canRedo}
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 md:h-9 md:w-9"
+            title="Повторить (Ctrl+Shift+Z)"
+          >
+            <Icon name="Redo2" size={16} />
+          </Button>
+          <Button
+            onClick={() => setShowDsl(!showDsl)}
+            size="icon"
+            variant={showDsl ? 'secondary' : 'ghost'}
+            className="hidden md:inline-flex h-9 w-9"
+            title="Текст графа"
+          >
+            <Icon name="FileCode" size={16} />
+          </Button>
+          <LayoutPopover onArrange={arrange} disabled={nodes.length < 2 || layout.animating} />
+          <RelationTypesDialog
+            types={doc.relationTypes}
+            usage={relationUsage(doc)}
+            onAdd={addRelationType}
+            onChange={changeRelationType}
+            onRemove={deleteRelationType}
+          />
+          <GraphFileMenu name={name} doc={doc} viewport={viewport} createdAt={createdAt} />
           <Button onClick={addNode} size="sm" className="h-8 md:h-9">
             <Icon name="Plus" size={16} />
             <span className="hidden sm:inline ml-2">Узел</span>
           </Button>
-          {selectedNode && isMobile && (
+          {(selection.size > 0 || selectedEdge) && isMobile && (
             <Button 
               onClick={() => setShowSidebar(!showSidebar)} 
               size="sm" 
@@ -217,124 +784,288 @@ const GraphEditor = () => {
       </div>
 
       <div className="flex-1 flex overflow-hidden">
-        <div
-          ref={canvasRef}
-          className="flex-1 relative overflow-hidden touch-none select-none"
-          style={{ touchAction: 'none' }}
-          onPointerDown={handleCanvasPointerDown}
-          onPointerMove={handlePointerMove}
-          onPointerUp={handlePointerUp}
-          onPointerLeave={handlePointerUp}
-          onWheel={handleWheel}
-        >
-          <svg
-            ref={svgRef}
-            className="absolute inset-0 w-full h-full pointer-events-none"
-            style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
-          >
-            <defs>
-              <marker
-                id="arrowhead-primary"
-                markerWidth="10"
-                markerHeight="10"
-                refX="9"
-                refY="3"
-                orient="auto"
-              >
-                <polygon points="0 0, 10 3, 0 6" fill="#9b87f5" />
-              </marker>
-              <marker
-                id="arrowhead-alias"
-                markerWidth="10"
-                markerHeight="10"
-                refX="9"
-                refY="3"
-                orient="auto"
-              >
-                <polygon points="0 0, 10 3, 0 6" fill="#6b7280" />
-              </marker>
-            </defs>
-            {filteredEdges.map((edge) => {
-              const fromNode = nodes.find(n => n.id === edge.from);
-              const toNode = nodes.find(n => n.id === edge.to);
-              if (!fromNode || !toNode) return null;
-
-              return (
-                <line
-                  key={edge.id}
-                  x1={fromNode.x + 75}
-                  y1={fromNode.y + 40}
-                  x2={toNode.x + 75}
-                  y2={toNode.y + 40}
-                  stroke={edge.type === 'primary' ? '#9b87f5' : '#6b7280'}
-                  strokeWidth="2"
-                  markerEnd={`url(#arrowhead-${edge.type})`}
-                  className="pointer-events-auto cursor-pointer hover:stroke-[3]"
-                  onClick={() => deleteEdge(edge.id)}
-                />
-              );
-            })}
-          </svg>
-
-          <div
-            className="absolute inset-0"
-            style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
-          >
-            {filteredNodes.map((node) => (
-              <Card
-                key={node.id}
-                className={`graph-node absolute w-[140px] md:w-[150px] p-2 md:p-3 touch-none transition-all ${
-                  selectedNode === node.id ? 'ring-2 ring-primary shadow-lg' : 'active:shadow-md'
-                }`}
-                style={{ left: node.x, top: node.y, cursor: 'grab' }}
-                onPointerDown={(e) => handleNodePointerDown(e, node.id)}
+        <ResizablePanelGroup direction="horizontal" className="flex-1 min-w-0 w-auto">
+          {showDsl && (
+            <>
+              <ResizablePanel id="dsl" order={1} defaultSize={30} minSize={20} maxSize={60}>
+                <DslEditor doc={doc} onApply={applyDslText} onClose={() => setShowDsl(false)} />
+              </ResizablePanel>
+              <ResizableHandle withHandle />
+            </>
+          )}
+          <ResizablePanel id="canvas" order={2} minSize={30}>
+            <div
+              ref={canvasRef}
+              className="h-full relative overflow-hidden touch-none select-none"
+              style={{ touchAction: 'none' }}
+              onPointerDown={handleCanvasPointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              onWheel={handleWheel}
+            >
+              <svg
+                ref={svgRef}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
               >
-                {editingNode === node.id ? (
-                  <Textarea
-                    value={node.text}
-                    onChange={(e) => updateNodeText(node.id, e.target.value)}
-                    onBlur={() => setEditingNode(null)}
-                    autoFocus
-                    className="min-h-[50px] md:min-h-[60px] text-xs md:text-sm resize-none"
+                <RelationMarkers types={doc.relationTypes} />
+                {filteredEdges.map((edge) => {
+                  const route = routes.get(edge.id);
+                  if (!route) return null;
+                  const selected = selectedEdge === edge.id;
+
+                  return (
+                    <g
+                      key={edge.id}
+                      className="group pointer-events-auto cursor-pointer"
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onPointerEnter={() => setHoveredEdge(edge.id)}
+                      onPointerLeave={() => setHoveredEdge(null)}
+                      onClick={() => selectEdge(edge.id)}
+                      onDoubleClick={() => setEditingEdge(edge.id)}
+                    >
+                      {/* Широкая прозрачная линия упрощает попадание по связи, особенно пальцем */}
+                      <path d={route.path} fill="none" stroke="transparent" strokeWidth={16} strokeLinecap="round" />
+                      {selected && (
+                        <path
+                          d={route.path}
+                          fill="none"
+                          stroke="hsl(var(--primary))"
+                          strokeOpacity={0.25}
+                          strokeWidth={10}
+                          strokeLinecap="round"
+                        />
+                      )}
+                      <path
+                        d={route.path}
+                        fill="none"
+                        {...relationStroke(relationById.get(edge.type))}
+                        strokeWidth={selected ? 3 : 2}
+                        className="group-hover:stroke-[3]"
+                      />
+                      {edge.label && editingEdge !== edge.id && (
+                        <text
+                          x={route.mid.x}
+                          y={route.mid.y}
+                          textAnchor="middle"
+                          dominantBaseline="middle"
+                          className="fill-foreground stroke-background text-xs"
+                          strokeWidth={4}
+                          paintOrder="stroke"
+                        >
+                          {edge.label}
+                        </text>
+                      )}
+                    </g>
+                  );
+                })}
+                {connecting && connectingStart && (
+                  <line
+                    x1={connectingStart.x}
+                    y1={connectingStart.y}
+                    x2={connecting.x}
+                    y2={connecting.y}
+                    {...relationStroke(relationById.get(linkType))}
+                    strokeWidth="2"
+                    strokeDasharray="6 4"
                   />
-                ) : (
-                  <p className="text-xs md:text-sm min-h-[50px] md:min-h-[60px] break-words">
-                    {node.text}
-                  </p>
                 )}
-              </Card>
-            ))}
-          </div>
-
-          <div className="absolute bottom-3 md:bottom-4 right-3 md:right-4 flex gap-1 md:gap-2">
-            <Button
-              size="icon"
-              variant="secondary"
-              onClick={() => setZoom(prev => Math.min(prev + 0.2, 2))}
-              className="h-9 w-9 md:h-10 md:w-10 shadow-lg"
-            >
-              <Icon name="ZoomIn" size={18} />
-            </Button>
-            <Button
-              size="icon"
-              variant="secondary"
-              onClick={() => setZoom(prev => Math.max(prev - 0.2, 0.5))}
-              className="h-9 w-9 md:h-10 md:w-10 shadow-lg"
-            >
-              <Icon name="ZoomOut" size={18} />
-            </Button>
-            <Button
-              size="icon"
-              variant="secondary"
-              onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }}
-              className="h-9 w-9 md:h-10 md:w-10 shadow-lg"
-            >
-              <Icon name="Maximize2" size={18} />
-            </Button>
-          </div>
-        </div>
+              </svg>
+
+              <div
+                className="absolute inset-0"
+                style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
+              >
+                {layeredNodes.map((node) => {
+                  const shape = node.shape ?? DEFAULT_NODE_SHAPE;
+                  const selected = selection.has(node.id);
+                  const fill = node.fill ?? (shape === 'sticky' ? STICKY_FILL : undefined);
+                  const highlighted = connecting?.target === node.id
+                    || selectedEdgeData?.from === node.id
+                    || selectedEdgeData?.to === node.id;
+
+                  return (
+                    <div
+                      key={node.id}
+                      ref={measure(node.id)}
+                      data-node-id={node.id}
+                      className={`graph-node group absolute flex flex-col touch-none transition-all text-card-foreground ${
+                        SHAPE_CLASSES[shape]
+                      } ${SHAPE_CONTENT_CLASSES[shape]} ${
+                        shape !== 'diamond' && !fill ? (shape === 'group' ? 'bg-muted/30' : 'bg-card') : ''
+                      } ${
+                        shape === 'diamond'
+                          ? ''
+                          : selected
+                            ? 'ring-2 ring-primary shadow-lg'
+                            : highlighted
+                              ? 'ring-2 ring-primary/50'
+                              : 'shadow-sm active:shadow-md'
+                      }`}
+                      style={{
+                        left: node.x,
+                        top: node.y,
+                        width: nodeSize(node).width,
+                        height: node.height,
+                        minHeight: node.height === undefined ? NODE_HEIGHT : undefined,
+                        backgroundColor: shape === 'diamond' ? undefined : shape === 'group' ? groupBackground(fill) : fill,
+                        borderColor: node.border,
+                        cursor: 'grab',
+                      }}
+                      onPointerDown={(e) => handleNodePointerDown(e, node.id)}
+                    >
+                      {shape === 'diamond' && (
+                        <svg
+                          className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+                          viewBox="0 0 100 100"
+                          preserveAspectRatio="none"
+                        >
+                          <polygon
+                            points="50 0, 100 50, 50 100, 0 50"
+                            fill={fill ?? 'hsl(var(--card))'}
+                            stroke={selected || highlighted ? 'hsl(var(--primary))' : node.border ?? 'hsl(var(--border))'}
+                            strokeWidth={selected ? 2 : 1}
+                            vectorEffect="non-scaling-stroke"
+                          />
+                        </svg>
+                      )}
+                      <div
+                        className={`absolute z-10 -right-2 top-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-primary bg-background cursor-crosshair transition-opacity ${
+                          selected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                        }`}
+                        title="Потяните к другому узлу, чтобы создать связь (Alt — псевдоним)"
+                        onPointerDown={(e) => handleConnectPointerDown(e, node.id)}
+                      />
+                      {selected && selection.size === 1 && RESIZE_CORNERS.map(corner => (
+                        <div
+                          key={corner}
+                          className={`absolute z-10 w-3 h-3 rounded-sm border-2 border-primary bg-background ${CORNER_CLASSES[corner]}`}
+                          title="Потяните, чтобы изменить размер"
+                          onPointerDown={(e) => handleResizePointerDown(e, node.id, corner)}
+                        />
+                      ))}
+                      {node.pinned && (
+                        <Icon name="Pin" size={12} className="absolute top-1 right-1 text-muted-foreground" />
+                      )}
+                      {editingNode === node.id ? (
+                        <Textarea
+                          value={node.text}
+                          onChange={(e) => updateNodeText(node.id, e.target.value)}
+                          onBlur={() => setEditingNode(null)}
+                          autoFocus
+                          className="relative flex-1 min-h-0 text-xs md:text-sm resize-none"
+                        />
+                      ) : (
+                        <Markdown
+                          source={node.text}
+                          onToggleTask={(line) => toggleNodeTask(node.id, line)}
+                          onWikiLink={openWikiLink}
+                          hasWikiTarget={(target) => titles.has(titleKey(target))}
+                          className="relative flex-1 overflow-hidden text-xs md:text-sm"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+                {hoveredEdgeData && !editingEdge && !drag && (() => {
+                  const fromNode = nodeById.get(hoveredEdgeData.from);
+                  const toNode = nodeById.get(hoveredEdgeData.to);
+                  const route = routes.get(hoveredEdgeData.id);
+                  if (!fromNode || !toNode || !route) return null;
+                  return (
+                    <div
+                      className="absolute z-10 max-w-[240px] -translate-x-1/2 -translate-y-full rounded-md border bg-popover px-2 py-1 text-xs text-popover-foreground shadow-md pointer-events-none"
+                      style={{
+                        left: route.mid.x,
+                        top: route.mid.y - 14,
+                      }}
+                    >
+                      <div className="flex items-center gap-1">
+                        <span className="truncate">{fromNode.text || 'Без текста'}</span>
+                        <Icon name="ArrowRight" size={12} className="flex-shrink-0" />
+                        <span className="truncate">{toNode.text || 'Без текста'}</span>
+                      </div>
+                      {hoveredEdgeData.label && (
+                        <div className="text-muted-foreground truncate">{hoveredEdgeData.label}</div>
+                      )}
+                    </div>
+                  );
+                })()}
+                {editingEdge && (() => {
+                  const edge = edgeById.get(editingEdge);
+                  const route = edge && routes.get(edge.id);
+                  if (!edge || !route) return null;
+                  return (
+                    <Input
+                      value={edge.label ?? ''}
+                      onChange={(e) => updateEdgeLabel(edge.id, e.target.value)}
+                      onBlur={() => setEditingEdge(null)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === 'Escape') setEditingEdge(null);
+                      }}
+                      onPointerDown={(e) => e.stopPropagation()}
+                      autoFocus
+                      placeholder="Подпись"
+                      className="absolute w-40 h-8 text-xs text-center -translate-x-1/2 -translate-y-1/2"
+                      style={{
+                        left: route.mid.x,
+                        top: route.mid.y,
+                      }}
+                    />
+                  );
+                })()}
+                {marquee && (() => {
+                  const rect = normalizeRect(marquee.start, marquee.end);
+                  return (
+                    <div
+                      className="absolute border border-dashed border-primary bg-primary/10 pointer-events-none"
+                      style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+                    />
+                  );
+                })()}
+              </div>
+
+              <div className="absolute bottom-3 md:bottom-4 right-3 md:right-4 flex gap-1 md:gap-2">
+                <Button
+                  size="icon"
+                  variant={marqueeMode ? 'default' : 'secondary'}
+                  onClick={() => setMarqueeMode(!marqueeMode)}
+                  className="h-9 w-9 md:h-10 md:w-10 shadow-lg"
+                  title="Выделение рамкой (или Shift + перетаскивание)"
+                >
+                  <Icon name="BoxSelect" size={18} />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="secondary"
+                  onClick={() => setZoom(prev => Math.min(prev + 0.2, 2))}
+                  className="h-9 w-9 md:h-10 md:w-10 shadow-lg"
+                >
+                  <Icon name="ZoomIn" size={18} />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="secondary"
+                  onClick={() => setZoom(prev => Math.max(prev - 0.2, 0.5))}
+                  className="h-9 w-9 md:h-10 md:w-10 shadow-lg"
+                >
+                  <Icon name="ZoomOut" size={18} />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="secondary"
+                  onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }}
+                  className="h-9 w-9 md:h-10 md:w-10 shadow-lg"
+                >
+                  <Icon name="Maximize2" size={18} />
+                </Button>
+              </div>
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
 
-        {selectedNodeData && (
+        {(selectedNodeData || selectedEdgeData || selection.size > 1) && (
           <aside className={`
             ${isMobile ? 'fixed inset-x-0 bottom-0 max-h-[70vh] rounded-t-2xl shadow-2xl' : 'w-80 border-l'}
             ${isMobile && !showSidebar ? 'hidden' : 'block'}
@@ -343,110 +1074,141 @@ const GraphEditor = () => {
             {isMobile && (
               <div className="w-12 h-1 bg-muted rounded-full mx-auto mb-4" />
             )}
-            <div className="space-y-4 md:space-y-6">
-              <div>
-                <div className="flex items-center justify-between mb-3 md:mb-4">
-                  <h3 className="font-semibold text-sm md:text-base">Редактирование узла</h3>
-                  <div className="flex gap-1">
-                    {isMobile && (
+            {selection.size > 1 ? (
+              <SelectionPanel
+                doc={doc}
+                selection={selection}
+                onSelectOnly={(id) => select([id])}
+                onSetPinned={(pinned) => setPinned(selection, pinned)}
+                onDuplicate={duplicateSelection}
+                onDelete={() => deleteNodes(selection)}
+                onClear={() => select([])}
+              />
+            ) : selectedEdgeData ? (
+              <EdgeInspector
+                edge={selectedEdgeData}
+                types={doc.relationTypes}
+                fromNode={nodeById.get(selectedEdgeData.from)}
+                toNode={nodeById.get(selectedEdgeData.to)}
+                onChangeLabel={(label) => updateEdgeLabel(selectedEdgeData.id, label)}
+                onChangeNotes={(notes) => updateEdgeNotes(selectedEdgeData.id, notes)}
+                onChangeType={(type) => changeEdgeType(selectedEdgeData, type)}
+                onChangeRouting={(routing) => changeEdgeRouting(selectedEdgeData.id, routing)}
+                onReverse={() => flipEdge(selectedEdgeData)}
+                onSelectNode={(id) => select([id])}
+                onDelete={() => deleteEdge(selectedEdgeData.id)}
+                onClose={() => select([])}
+              />
+            ) : selectedNodeData && (
+              <div className="space-y-4 md:space-y-6">
+                <div>
+                  <div className="flex items-center justify-between mb-3 md:mb-4">
+                    <h3 className="font-semibold text-sm md:text-base">Редактирование узла</h3>
+                    <div className="flex gap-1">
+                      {isMobile && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setShowSidebar(false)}
+                          className="h-8 w-8"
+                        >
+                          <Icon name="X" size={18} />
+                        </Button>
+                      )}
                       <Button
                         size="icon"
                         variant="ghost"
-                        onClick={() => setShowSidebar(false)}
+                        onClick={() => setPinned([selectedNode!], !selectedNodeData.pinned)}
                         className="h-8 w-8"
+                        title={selectedNodeData.pinned ? 'Открепить' : 'Закрепить при раскладке'}
                       >
-                        <Icon name="X" size={18} />
+                        <Icon name={selectedNodeData.pinned ? 'PinOff' : 'Pin'} size={18} />
                       </Button>
-                    )}
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      onClick={() => deleteNode(selectedNode!)}
-                      className="h-8 w-8"
-                    >
-                      <Icon name="Trash2" size={18} />
-                    </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={duplicateSelection}
+                        className="h-8 w-8"
+                        title="Дублировать (Ctrl+D)"
+                      >
+                        <Icon name="Copy" size={18} />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteNodes(selection)}
+                        className="h-8 w-8"
+                      >
+                        <Icon name="Trash2" size={18} />
+                      </Button>
+                    </div>
                   </div>
+                  <MarkdownEditor
+                    value={selectedNodeData.text}
+                    onChange={(text) => updateNodeText(selectedNode!, text)}
+                    onToggleTask={(line) => toggleNodeTask(selectedNode!, line)}
+                    onWikiLink={openWikiLink}
+                    hasWikiTarget={(target) => titles.has(titleKey(target))}
+                    linkSuggestions={linkSuggestions}
+                    onCreateLinkedNode={(title, text) => createLinkedNode(selectedNode!, title, text)}
+                    className="min-h-[100px] md:min-h-[120px]"
+                    placeholder="Введите текст узла... Поддерживается Markdown"
+                  />
                 </div>
-                <Textarea
-                  value={selectedNodeData.text}
-                  onChange={(e) => updateNodeText(selectedNode!, e.target.value)}
-                  className="min-h-[100px] md:min-h-[120px] text-sm"
-                  placeholder="Введите текст узла..."
-                />
-              </div>
 
-              <div>
-                <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Создать связь</h3>
-                <div className="flex gap-2">
-                  <Button
-                    onClick={() => addEdge('primary')}
-                    variant="default"
-                    size="sm"
-                    className="flex-1 h-9 text-xs md:text-sm"
-                  >
-                    <Icon name="ArrowRight" size={14} className="mr-1 md:mr-2" />
-                    Основная
-                  </Button>
-                  <Button
-                    onClick={() => addEdge('alias')}
-                    variant="secondary"
-                    size="sm"
-                    className="flex-1 h-9 text-xs md:text-sm"
-                  >
-                    <Icon name="Link" size={14} className="mr-1 md:mr-2" />
-                    Псевдоним
-                  </Button>
+                <div>
+                  <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Оформление</h3>
+                  <NodeStyleEditor
+                    node={selectedNodeData}
+                    onChange={(changes) => updateNodeStyle(selectedNode!, changes)}
+                  />
                 </div>
-              </div>
 
-              <div>
-                <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Связи узла</h3>
-                {selectedNodeEdges.length === 0 ? (
-                  <p className="text-xs md:text-sm text-muted-foreground">Нет связей</p>
-                ) : (
-                  <div className="space-y-2">
-                    {selectedNodeEdges.map((edge) => {
-                      const otherNodeId = edge.from === selectedNode ? edge.to : edge.from;
-                      const otherNode = nodes.find(n => n.id === otherNodeId);
-                      
-                      return (
-                        <div
-                          key={edge.id}
-                          className="flex items-center justify-between p-2 rounded bg-secondary text-xs md:text-sm"
-                        >
-                          <div className="flex items-center gap-1 md:gap-2 flex-1 min-w-0">
-                            <Badge 
-                              variant={edge.type === 'primary' ? 'default' : 'secondary'}
-                              className="text-[10px] md:text-xs px-1.5 md:px-2"
-                            >
-                              {edge.type === 'primary' ? 'primary' : 'alias'}
-                            </Badge>
-                            <Icon 
-                              name={edge.from === selectedNode ? "ArrowRight" : "ArrowLeft"} 
-                              size={12} 
-                              className="flex-shrink-0"
-                            />
-                            <span className="truncate text-xs">{otherNode?.text}</span>
-                          </div>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            className="h-6 w-6 flex-shrink-0"
-                            onClick={() => deleteEdge(edge.id)}
-                          >
-                            <Icon name="X" size={12} />
-                          </Button>
-                        </div>
-                      );
-                    })}
+                <div>
+                  <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Создать связь</h3>
+                  <div className="mb-2">
+                    <RelationTypePicker types={doc.relationTypes} value={linkType} onChange={setLinkType} />
                   </div>
-                )}
+                  <EdgeTargetPicker
+                    nodes={nodes.filter(n => n.id !== selectedNode)}
+                    onSelect={(targetId) => addEdge(selectedNode!, targetId, linkType)}
+                  />
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Связи узла</h3>
+                  <NeighborhoodPanel
+                    doc={doc}
+                    nodeId={selectedNode!}
+                    onFocusNode={focusNode}
+                    onSelectEdge={selectEdge}
+                    onHoverEdge={setHoveredEdge}
+                    onDeleteEdge={deleteEdge}
+                    onLinkMention={(id) => addEdge(id, selectedNode!, linkType)}
+                  />
+                </div>
               </div>
-            </div>
+            )}
           </aside>
         )}
       </div>
+
+      <AlertDialog open={!!recovery}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Восстановить несохранённые изменения?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Прошлая сессия завершилась до сохранения графа
+              {recovery && ` (${new Date(recovery.updatedAt).toLocaleString()})`}.
+              Можно вернуть последнюю версию или продолжить с сохранённой.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={discardRecovery}>Отбросить</AlertDialogCancel>
+            <AlertDialogAction onClick={acceptRecovery}>Восстановить</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,97 @@
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import Icon from '@/components/ui/icon';
+import { toast } from 'sonner';
+import type { GraphDocument, Viewport } from '@/graph';
+import { GRAPH_FILE_EXTENSION, serializeGraphFile } from '@/graph/formats/json';
+import { mermaidCodeBlock } from '@/graph/formats/mermaid';
+import { downloadText, EXPORT_FORMATS, importGraphFile, toFileName, type ExportFormat } from '@/lib/graph-files';
+
+type GraphFileMenuProps = {
+  name: string;
+  doc: GraphDocument;
+  viewport: Viewport;
+  createdAt?: number;
+};
+
+const GraphFileMenu = ({ name, doc, viewport, createdAt }: GraphFileMenuProps) => {
+  const navigate = useNavigate();
+
+  const saveAsFile = () => {
+    const text = serializeGraphFile({
+      doc,
+      viewport,
+      metadata: { name, createdAt, updatedAt: Date.now() },
+    });
+    downloadText(toFileName(name, GRAPH_FILE_EXTENSION), text);
+    toast.success('Файл сохранён');
+  };
+
+  const exportAs = (format: ExportFormat) => {
+    downloadText(toFileName(name, format.extension), format.serialize(doc, name), format.mimeType);
+    toast.success('Граф экспортирован');
+  };
+
+  // Блок ```mermaid готов к вставке в Markdown-документацию
+  const copyMermaid = async () => {
+    try {
+      await navigator.clipboard.writeText(mermaidCodeBlock(doc, name));
+      toast.success('Диаграмма Mermaid скопирована');
+    } catch {
+      toast.error('Не удалось скопировать в буфер обмена');
+    }
+  };
+
+  const openFile = async () => {
+    const graph = await importGraphFile();
+    if (graph) navigate(`/g/${graph.id}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="icon" variant="ghost" className="h-8 w-8 md:h-9 md:w-9" title="Файл">
+          <Icon name="FileText" size={16} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={saveAsFile}>
+          <Icon name="Download" size={14} className="mr-2" />
+          Сохранить в файл
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Icon name="FileOutput" size={14} className="mr-2" />
+            Экспорт
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {EXPORT_FORMATS.map(format => (
+              <DropdownMenuItem key={format.extension} onSelect={() => exportAs(format)}>
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuItem onSelect={copyMermaid}>
+              <Icon name="Copy" size={14} className="mr-2" />
+              Копировать Mermaid для Markdown
+            </DropdownMenuItem>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuItem onSelect={openFile}>
+          <Icon name="Upload" size={14} className="mr-2" />
+          Открыть файл
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default GraphFileMenu;
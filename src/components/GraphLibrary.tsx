@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import Icon from '@/components/ui/icon';
+import { toast } from 'sonner';
+import { DEFAULT_RELATION_TYPES, type GraphDocument } from '@/graph';
+import GraphThumbnail from '@/components/GraphThumbnail';
+import { importGraphFile } from '@/lib/graph-files';
+import {
+  listGraphs,
+  createGraph,
+  renameGraph,
+  duplicateGraph,
+  deleteGraph,
+  type StoredGraph,
+} from '@/lib/graph-storage';
+
+const SAMPLE_SEEDED_KEY = 'graph-library-seeded';
+
+const SAMPLE_GRAPH: GraphDocument = {
+  nodes: [
+    { id: '1', text: 'Начальная идея', x: 200, y: 150 },
+    { id: '2', text: 'Развитие концепции', x: 450, y: 150 },
+    { id: '3', text: 'Альтернативный подход', x: 325, y: 300 },
+  ],
+  edges: [
+    { id: 'e1', from: '1', to: '2', type: 'primary' },
+    { id: 'e2', from: '2', to: '3', type: 'alias' },
+  ],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+// Пример создаётся один раз, чтобы удалённый граф не возвращался
+const seedSample = async () => {
+  if (localStorage.getItem(SAMPLE_SEEDED_KEY)) return;
+  localStorage.setItem(SAMPLE_SEEDED_KEY, '1');
+  await createGraph('Пример', SAMPLE_GRAPH);
+};
+
+const GraphLibrary = () => {
+  const navigate = useNavigate();
+  const [graphs, setGraphs] = useState<StoredGraph[] | null>(null);
+  const [renaming, setRenaming] = useState<StoredGraph | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [deleting, setDeleting] = useState<StoredGraph | null>(null);
+
+  const refresh = () =>
+    listGraphs()
+      .then(setGraphs)
+      .catch(() => {
+        setGraphs([]);
+        toast.error('Не удалось загрузить список графов');
+      });
+
+  useEffect(() => {
+    seedSample().catch(() => {}).finally(refresh);
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const graph = await createGraph('Новый граф');
+      navigate(`/g/${graph.id}`);
+    } catch {
+      toast.error('Не удалось создать граф');
+    }
+  };
+
+  const handleOpenFile = async () => {
+    const graph = await importGraphFile();
+    if (graph) navigate(`/g/${graph.id}`);
+  };
+
+  const handleDuplicate = async (graph: StoredGraph) => {
+    try {
+      await duplicateGraph(graph.id, `${graph.name} (копия)`);
+      toast.success('Граф скопирован');
+      refresh();
+    } catch {
+      toast.error('Не удалось скопировать граф');
+    }
+  };
+
+  const openRename = (graph: StoredGraph) => {
+    setRenaming(graph);
+    setRenameValue(graph.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    const name = renameValue.trim();
+    if (!name) return;
+    try {
+      await renameGraph(renaming.id, name);
+      setRenaming(null);
+      refresh();
+    } catch {
+      toast.error('Не удалось переименовать граф');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteGraph(deleting.id);
+      toast.success('Граф удалён');
+      refresh();
+    } catch {
+      toast.error('Не удалось удалить граф');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="border-b bg-card px-3 md:px-6 py-3 md:py-4 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 md:gap-3 min-w-0">
+          <Icon name="Network" size={20} className="text-primary flex-shrink-0 md:w-6 md:h-6" />
+          <h1 className="text-base md:text-xl font-semibold truncate">Мои графы</h1>
+        </div>
+        <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
+          <Button onClick={handleOpenFile} size="sm" variant="outline" className="h-8 md:h-9">
+            <Icon name="Upload" size={16} />
+            <span className="hidden sm:inline ml-2">Открыть файл</span>
+          </Button>
+          <Button onClick={handleCreate} size="sm" className="h-8 md:h-9">
+            <Icon name="Plus" size={16} />
+            <span className="hidden sm:inline ml-2">Новый граф</span>
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-3 md:p-6">
+        {graphs === null ? (
+          <div className="flex justify-center py-12">
+            <Icon name="Loader2" size={24} className="animate-spin text-muted-foreground" />
+          </div>
+        ) : graphs.length === 0 ? (
+          <div className="flex flex-col items-center gap-4 py-12 text-muted-foreground">
+            <p className="text-sm">Графов пока нет</p>
+            <Button onClick={handleCreate} variant="outline" size="sm">
+              Создать первый граф
+            </Button>
+          </div>
+        ) : (
+          <div className="grid gap-3 md:gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {graphs.map((graph) => (
+              <Card
+                key={graph.id}
+                className="overflow-hidden cursor-pointer transition-shadow hover:shadow-md"
+                onClick={() => navigate(`/g/${graph.id}`)}
+              >
+                <GraphThumbnail
+                  nodes={graph.nodes}
+                  edges={graph.edges}
+                  relationTypes={graph.relationTypes}
+                  className="h-32 w-full bg-muted/40 border-b"
+                />
+                <div className="p-3 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h2 className="font-medium text-sm truncate">{graph.name}</h2>
+                    <p className="text-xs text-muted-foreground">
+                      {graph.nodes.length} узл. · {graph.edges.length} связ.
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(graph.updatedAt, { addSuffix: true, locale: ru })}
+                    </p>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                      <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0">
+                        <Icon name="MoreVertical" size={16} />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                      <DropdownMenuItem onSelect={() => navigate(`/g/${graph.id}`)}>
+                        <Icon name="FolderOpen" size={14} className="mr-2" />
+                        Открыть
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => openRename(graph)}>
+                        <Icon name="Pencil" size={14} className="mr-2" />
+                        Переименовать
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleDuplicate(graph)}>
+                        <Icon name="Copy" size={14} className="mr-2" />
+                        Дублировать
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onSelect={() => setDeleting(graph)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Icon name="Trash2" size={14} className="mr-2" />
+                        Удалить
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <form onSubmit={handleRename} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Переименовать граф</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              placeholder="Название графа"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                Отмена
+              </Button>
+              <Button type="submit" disabled={!renameValue.trim()}>
+                Сохранить
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить граф «{deleting?.name}»?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Граф будет удалён без возможности восстановления.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Удалить</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default GraphLibrary;
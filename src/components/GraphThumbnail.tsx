@@ -0,0 +1,78 @@
+import {
+  nodeCenter,
+  nodeSize,
+  type NodeType,
+  type EdgeType,
+  type RelationType,
+} from '@/graph';
+import { DASH_PATTERNS } from '@/lib/relation-style';
+
+const PADDING = 40;
+
+type GraphThumbnailProps = {
+  nodes: readonly NodeType[];
+  edges: readonly EdgeType[];
+  relationTypes: readonly RelationType[];
+  className?: string;
+};
+
+const GraphThumbnail = ({ nodes, edges, relationTypes, className }: GraphThumbnailProps) => {
+  if (nodes.length === 0) {
+    return (
+      <div className={`flex items-center justify-center text-muted-foreground ${className ?? ''}`}>
+        <span className="text-xs">Пустой граф</span>
+      </div>
+    );
+  }
+
+  const minX = Math.min(...nodes.map(n => n.x)) - PADDING;
+  const minY = Math.min(...nodes.map(n => n.y)) - PADDING;
+  const maxX = Math.max(...nodes.map(n => n.x + nodeSize(n).width)) + PADDING;
+  const maxY = Math.max(...nodes.map(n => n.y + nodeSize(n).height)) + PADDING;
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const typeById = new Map(relationTypes.map(t => [t.id, t]));
+
+  return (
+    <svg
+      className={className}
+      viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {edges.map(edge => {
+        const from = byId.get(edge.from);
+        const to = byId.get(edge.to);
+        if (!from || !to) return null;
+        const type = typeById.get(edge.type);
+        return (
+          <line
+            key={edge.id}
+            x1={nodeCenter(from).x}
+            y1={nodeCenter(from).y}
+            x2={nodeCenter(to).x}
+            y2={nodeCenter(to).y}
+            stroke={type?.color ?? '#6b7280'}
+            strokeWidth={6}
+            strokeDasharray={type && DASH_PATTERNS[type.dash]}
+          />
+        );
+      })}
+      {nodes.map(node => (
+        <rect
+          key={node.id}
+          x={node.x}
+          y={node.y}
+          width={nodeSize(node).width}
+          height={nodeSize(node).height}
+          rx={node.shape === 'ellipse' ? nodeSize(node).width / 2 : node.shape === 'rectangle' ? 0 : 12}
+          className="fill-card stroke-border"
+          style={{ fill: node.fill, stroke: node.border }}
+          strokeWidth={4}
+          fillOpacity={node.shape === 'group' ? 0.2 : undefined}
+          strokeDasharray={node.shape === 'group' ? '12 8' : undefined}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default GraphThumbnail;
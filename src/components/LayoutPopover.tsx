@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import Icon from '@/components/ui/icon';
+import type { LayeredOrientation, LayoutRequest } from '@/graph';
+
+type LayoutPopoverProps = {
+  onArrange: (request: LayoutRequest) => void;
+  disabled?: boolean;
+};
+
+const LayoutPopover = ({ onArrange, disabled }: LayoutPopoverProps) => {
+  const [open, setOpen] = useState(false);
+  const [algorithm, setAlgorithm] = useState<LayoutRequest['algorithm']>('force');
+  const [orientation, setOrientation] = useState<LayeredOrientation>('top-down');
+  const [springLength, setSpringLength] = useState(200);
+  const [strength, setStrength] = useState(1);
+
+  const arrange = () => {
+    onArrange(algorithm === 'force'
+      ? { algorithm, options: { springLength, strength } }
+      : { algorithm, options: { orientation } });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 md:h-9 md:w-9"
+          title="Упорядочить"
+          disabled={disabled}
+        >
+          <Icon name="Wand2" size={16} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="flex gap-2">
+          <Button
+            onClick={() => setAlgorithm('force')}
+            variant={algorithm === 'force' ? 'default' : 'outline'}
+            size="sm"
+            className="flex-1 h-8 text-xs"
+          >
+            <Icon name="Orbit" size={14} className="mr-1" />
+            Силовая
+          </Button>
+          <Button
+            onClick={() => setAlgorithm('layered')}
+            variant={algorithm === 'layered' ? 'default' : 'outline'}
+            size="sm"
+            className="flex-1 h-8 text-xs"
+          >
+            <Icon name="Network" size={14} className="mr-1" />
+            Иерархия
+          </Button>
+        </div>
+        {algorithm === 'force' ? (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Длина связей</Label>
+                <span className="text-xs text-muted-foreground">{springLength}px</span>
+              </div>
+              <Slider
+                min={80}
+                max={400}
+                step={10}
+                value={[springLength]}
+                onValueChange={([value]) => setSpringLength(value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Сила связей</Label>
+                <span className="text-xs text-muted-foreground">{strength.toFixed(1)}</span>
+              </div>
+              <Slider
+                min={0.2}
+                max={3}
+                step={0.1}
+                value={[strength]}
+                onValueChange={([value]) => setStrength(value)}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <Label className="text-xs">Направление</Label>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setOrientation('top-down')}
+                variant={orientation === 'top-down' ? 'secondary' : 'outline'}
+                size="sm"
+                className="flex-1 h-8 text-xs"
+              >
+                <Icon name="ArrowDown" size={14} className="mr-1" />
+                Сверху вниз
+              </Button>
+              <Button
+                onClick={() => setOrientation('left-right')}
+                variant={orientation === 'left-right' ? 'secondary' : 'outline'}
+                size="sm"
+                className="flex-1 h-8 text-xs"
+              >
+                <Icon name="ArrowRight" size={14} className="mr-1" />
+                Слева направо
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Иерархия строится по основным связям, псевдонимы не учитываются.
+            </p>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Закреплённые узлы остаются на своих местах.
+        </p>
+        <Button onClick={arrange} size="sm" className="w-full">
+          <Icon name="Wand2" size={14} className="mr-2" />
+          Упорядочить
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LayoutPopover;
@@ -0,0 +1,138 @@
+import { Fragment, useMemo, type ReactNode } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+const HEADING_CLASSES = ['text-base font-bold', 'text-sm font-bold', 'font-semibold'];
+
+type WikiLinkHandlers = {
+  // Переход к узлу по заголовку; без обработчика ссылка только подсвечивается
+  onWikiLink?: (target: string) => void;
+  hasWikiTarget?: (target: string) => boolean;
+};
+
+const renderInline = (nodes: MarkdownInline[], wiki: WikiLinkHandlers): ReactNode =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case 'break':
+        return <br key={i} />;
+      case 'strong':
+        return <strong key={i} className="font-semibold">{renderInline(node.children, wiki)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children, wiki)}</em>;
+      case 'code':
+        return <code key={i} className="rounded bg-muted px-1 font-mono text-[0.9em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-primary underline underline-offset-2"
+          >
+            {renderInline(node.children, wiki)}
+          </a>
+        );
+      case 'wikilink': {
+        const resolved = wiki.hasWikiTarget?.(node.target) ?? true;
+        return (
+          <button
+            key={i}
+            type="button"
+            disabled={!wiki.onWikiLink}
+            onClick={(e) => {
+              e.stopPropagation();
+              wiki.onWikiLink?.(node.target);
+            }}
+            onPointerDown={(e) => wiki.onWikiLink && e.stopPropagation()}
+            className={cn(
+              'inline underline underline-offset-2 disabled:cursor-default',
+              resolved ? 'text-sky-600 dark:text-sky-400' : 'text-muted-foreground decoration-dashed'
+            )}
+            title={resolved ? node.target : `Узел «${node.target}» не найден`}
+          >
+            {node.label}
+          </button>
+        );
+      }
+    }
+  });
+
+type MarkdownProps = WikiLinkHandlers & {
+  source: string;
+  // Без обработчика флажки задач только отображаются
+  onToggleTask?: (line: number) => void;
+  className?: string;
+};
+
+const Markdown = ({ source, onToggleTask, onWikiLink, hasWikiTarget, className }: MarkdownProps) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const wiki = { onWikiLink, hasWikiTarget };
+
+  const renderBlock = (block: MarkdownBlock, i: number) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level, 6)}` as 'h1';
+        return (
+          <Tag key={i} className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}>
+            {renderInline(block.children, wiki)}
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children, wiki)}</p>;
+      case 'quote':
+        return (
+          <blockquote key={i} className="border-l-2 pl-2 text-muted-foreground">
+            {renderInline(block.children, wiki)}
+          </blockquote>
+        );
+      case 'code':
+        return (
+          <pre key={i} className="overflow-x-auto rounded bg-muted p-2 font-mono text-[0.85em] text-left">
+            {block.text}
+          </pre>
+        );
+      case 'list': {
+        const Tag = block.ordered ? 'ol' : 'ul';
+        return (
+          <Tag
+            key={i}
+            start={block.ordered ? block.start : undefined}
+            className={cn('pl-4 text-left', block.ordered ? 'list-decimal' : 'list-disc')}
+          >
+            {block.items.map(item =>
+              item.checked === undefined ? (
+                <li key={item.line}>{renderInline(item.children, wiki)}</li>
+              ) : (
+                <li key={item.line} className="-ml-4 list-none">
+                  <label className="inline-flex items-start gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      disabled={!onToggleTask}
+                      onChange={() => onToggleTask?.(item.line)}
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={(e) => e.stopPropagation()}
+                      className="mt-[0.2em] h-3 w-3 flex-shrink-0 accent-primary"
+                    />
+                    <span className={item.checked ? 'line-through text-muted-foreground' : undefined}>
+                      {renderInline(item.children, wiki)}
+                    </span>
+                  </label>
+                </li>
+              )
+            )}
+          </Tag>
+        );
+      }
+    }
+  };
+
+  return <div className={cn('space-y-1 break-words', className)}>{blocks.map(renderBlock)}</div>;
+};
+
+export default Markdown;
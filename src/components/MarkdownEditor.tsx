@@ -0,0 +1,213 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import Icon from '@/components/ui/icon';
+import Markdown from '@/components/Markdown';
+import { titleKey } from '@/graph';
+import { completeWikiLink, prefixLines, wikiQueryAt, wrapSelection, type MarkdownEdit } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+type Format = {
+  icon: string;
+  title: string;
+  apply: (text: string, start: number, end: number) => MarkdownEdit;
+};
+
+const FORMATS: Format[] = [
+  { icon: 'Bold', title: 'Жирный', apply: (text, start, end) => wrapSelection(text, start, end, '**') },
+  { icon: 'Italic', title: 'Курсив', apply: (text, start, end) => wrapSelection(text, start, end, '*') },
+  { icon: 'Heading', title: 'Заголовок', apply: (text, start, end) => prefixLines(text, start, end, '## ') },
+  { icon: 'List', title: 'Список', apply: (text, start, end) => prefixLines(text, start, end, '- ') },
+  { icon: 'ListChecks', title: 'Задачи', apply: (text, start, end) => prefixLines(text, start, end, '- [ ] ') },
+  { icon: 'Code', title: 'Код', apply: (text, start, end) => wrapSelection(text, start, end, '`', '`', 'код') },
+  {
+    icon: 'Link',
+    title: 'Ссылка',
+    apply: (text, start, end) => wrapSelection(text, start, end, '[', '](https://)', 'ссылка'),
+  },
+  {
+    icon: 'Link2',
+    title: 'Ссылка на узел',
+    apply: (text, start, end) => wrapSelection(text, start, end, '[[', ']]', ''),
+  },
+];
+
+const SUGGESTION_LIMIT = 8;
+
+type Suggestion = { title: string; create: boolean };
+
+// Сначала заголовки, начинающиеся с запроса, затем содержащие его
+const matchSuggestions = (titles: readonly string[], query: string, canCreate: boolean): Suggestion[] => {
+  const key = titleKey(query);
+  const starts = titles.filter(t => titleKey(t).startsWith(key));
+  const contains = titles.filter(t => !titleKey(t).startsWith(key) && titleKey(t).includes(key));
+  const found = [...starts, ...contains].slice(0, SUGGESTION_LIMIT).map(title => ({ title, create: false }));
+  const exact = titles.some(t => titleKey(t) === key);
+  return canCreate && key && !exact ? [...found, { title: query.trim(), create: true }] : found;
+};
+
+type MarkdownEditorProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onToggleTask?: (line: number) => void;
+  onWikiLink?: (target: string) => void;
+  hasWikiTarget?: (target: string) => boolean;
+  // Заголовки узлов для автодополнения [[ссылок]]
+  linkSuggestions?: readonly string[];
+  // Создание недостающего узла вместе с новым текстом, где на него уже есть ссылка
+  onCreateLinkedNode?: (title: string, text: string) => void;
+  placeholder?: string;
+  className?: string;
+};
+
+const MarkdownEditor = ({
+  value,
+  onChange,
+  onToggleTask,
+  onWikiLink,
+  hasWikiTarget,
+  linkSuggestions = [],
+  onCreateLinkedNode,
+  placeholder,
+  className,
+}: MarkdownEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [preview, setPreview] = useState(false);
+  const [query, setQuery] = useState<string | null>(null);
+  const [active, setActive] = useState(0);
+
+  const suggestions = query === null ? [] : matchSuggestions(linkSuggestions, query, !!onCreateLinkedNode);
+
+  const select = (edit: MarkdownEdit) => {
+    const textarea = textareaRef.current;
+    // Выделение восстанавливается после того, как React применит новое значение
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(edit.start, edit.end);
+    });
+  };
+
+  const applyFormat = (format: Format) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const edit = format.apply(value, textarea.selectionStart, textarea.selectionEnd);
+    onChange(edit.text);
+    select(edit);
+  };
+
+  const trackQuery = (text: string, caret: number) => {
+    const found = wikiQueryAt(text, caret);
+    setQuery(found ? found.query : null);
+    setActive(0);
+  };
+
+  const accept = (suggestion: Suggestion) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const edit = completeWikiLink(value, textarea.selectionStart, suggestion.title);
+    if (!edit) return;
+    if (suggestion.create && onCreateLinkedNode) onCreateLinkedNode(suggestion.title, edit.text);
+    else onChange(edit.text);
+    setQuery(null);
+    select(edit);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((active + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions[Math.min(active, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {FORMATS.map(format => (
+          <Button
+            key={format.icon}
+            size="icon"
+            variant="ghost"
+            onClick={() => applyFormat(format)}
+            disabled={preview}
+            className="h-7 w-7"
+            title={format.title}
+          >
+            <Icon name={format.icon} size={14} />
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant={preview ? 'secondary' : 'ghost'}
+          onClick={() => setPreview(!preview)}
+          className="ml-auto h-7 px-2 text-xs"
+        >
+          <Icon name={preview ? 'Pencil' : 'Eye'} size={14} className="mr-1" />
+          {preview ? 'Правка' : 'Просмотр'}
+        </Button>
+      </div>
+      {preview ? (
+        <div className={cn('rounded-md border px-3 py-2 text-sm', className)}>
+          {value.trim() ? (
+            <Markdown
+              source={value}
+              onToggleTask={onToggleTask}
+              onWikiLink={onWikiLink}
+              hasWikiTarget={hasWikiTarget}
+            />
+          ) : (
+            <p className="text-muted-foreground">Пусто</p>
+          )}
+        </div>
+      ) : (
+        <div className="relative">
+          <Textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              trackQuery(e.target.value, e.target.selectionStart);
+            }}
+            onSelect={(e) => trackQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setQuery(null)}
+            className={cn('text-sm font-mono', className)}
+            placeholder={placeholder}
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full z-20 mt-1 max-h-60 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+              {suggestions.map((suggestion, i) => (
+                <button
+                  key={`${suggestion.create}:${suggestion.title}`}
+                  type="button"
+                  // Фокус остаётся в поле ввода, иначе список закроется раньше клика
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => accept(suggestion)}
+                  onMouseEnter={() => setActive(i)}
+                  className={cn(
+                    'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-xs',
+                    i === active && 'bg-accent text-accent-foreground'
+                  )}
+                >
+                  <Icon name={suggestion.create ? 'Plus' : 'FileText'} size={12} className="flex-shrink-0" />
+                  <span className="truncate">
+                    {suggestion.create ? `Создать узел «${suggestion.title}»` : suggestion.title}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,157 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import RelationBadge from '@/components/RelationBadge';
+import {
+  describeNeighborhood,
+  indexGraph,
+  nodeTitle,
+  type EdgeGroup,
+  type GraphDocument,
+  type NodeType,
+} from '@/graph';
+
+type NeighborhoodPanelProps = {
+  doc: GraphDocument;
+  nodeId: string;
+  onFocusNode: (id: string) => void;
+  onSelectEdge: (id: string) => void;
+  onHoverEdge: (id: string | null) => void;
+  onDeleteEdge: (id: string) => void;
+  // Превращает упоминание в связь от упоминающего узла к текущему
+  onLinkMention: (id: string) => void;
+};
+
+const titleOf = (node?: NodeType) => (node && nodeTitle(node)) || 'Без текста';
+
+const Section = ({ title, count, children }: { title: string; count: number; children: React.ReactNode }) => (
+  <div className="space-y-2">
+    <h4 className="flex items-center justify-between text-xs font-medium text-muted-foreground">
+      {title}
+      <span>{count}</span>
+    </h4>
+    {children}
+  </div>
+);
+
+const NeighborhoodPanel = ({
+  doc,
+  nodeId,
+  onFocusNode,
+  onSelectEdge,
+  onHoverEdge,
+  onDeleteEdge,
+  onLinkMention,
+}: NeighborhoodPanelProps) => {
+  const { outgoing, incoming, mentions, secondHop } = useMemo(() => describeNeighborhood(doc, nodeId), [doc, nodeId]);
+  const { nodeById, relationById } = indexGraph(doc);
+
+  const nodeButton = (id: string, icon: string) => (
+    <button
+      onClick={() => onFocusNode(id)}
+      className="flex items-center gap-1 md:gap-2 flex-1 min-w-0 text-left"
+      title="Показать узел"
+    >
+      <Icon name={icon} size={12} className="flex-shrink-0" />
+      <span className="truncate text-xs">{titleOf(nodeById.get(id))}</span>
+    </button>
+  );
+
+  const edgeGroups = (groups: EdgeGroup[], direction: 'out' | 'in') =>
+    groups.map(group => (
+      <div key={group.type} className="space-y-1">
+        <RelationBadge
+          type={relationById.get(group.type)}
+          className="text-[10px] md:text-xs px-1.5 md:px-2 max-w-full truncate"
+        />
+        {group.edges.map(edge => (
+          <div
+            key={edge.id}
+            className="flex items-center justify-between gap-1 p-2 rounded bg-secondary text-xs md:text-sm"
+            onPointerEnter={() => onHoverEdge(edge.id)}
+            onPointerLeave={() => onHoverEdge(null)}
+          >
+            {nodeButton(direction === 'out' ? edge.to : edge.from, direction === 'out' ? 'ArrowRight' : 'ArrowLeft')}
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 flex-shrink-0"
+              onClick={() => {
+                onHoverEdge(null);
+                onSelectEdge(edge.id);
+              }}
+              title="Выбрать связь"
+            >
+              <Icon name="Spline" size={12} />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 flex-shrink-0"
+              onClick={() => onDeleteEdge(edge.id)}
+              title="Удалить связь"
+            >
+              <Icon name="X" size={12} />
+            </Button>
+          </div>
+        ))}
+      </div>
+    ));
+
+  const count = (groups: EdgeGroup[]) => groups.reduce((sum, g) => sum + g.edges.length, 0);
+  const empty = <p className="text-xs text-muted-foreground">Нет</p>;
+
+  return (
+    <div className="space-y-4">
+      <Section title="Исходящие" count={count(outgoing)}>
+        {outgoing.length ? edgeGroups(outgoing, 'out') : empty}
+      </Section>
+
+      <Section title="Входящие" count={count(incoming)}>
+        {incoming.length ? edgeGroups(incoming, 'in') : empty}
+      </Section>
+
+      <Section title="Упоминания без связи" count={mentions.length}>
+        {mentions.length ? (
+          <div className="space-y-1">
+            {mentions.map(node => (
+              <div key={node.id} className="flex items-center justify-between gap-1 p-2 rounded bg-secondary">
+                {nodeButton(node.id, 'Quote')}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 flex-shrink-0"
+                  onClick={() => onLinkMention(node.id)}
+                  title="Связать"
+                >
+                  <Icon name="Link" size={12} />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          empty
+        )}
+      </Section>
+
+      <Section title="Через один узел" count={secondHop.length}>
+        {secondHop.length ? (
+          <div className="space-y-1">
+            {secondHop.map(({ node, via }) => (
+              <div key={node.id} className="p-2 rounded bg-secondary">
+                {nodeButton(node.id, 'Waypoints')}
+                <p className="mt-0.5 pl-5 truncate text-[10px] text-muted-foreground">
+                  через {via.map(n => titleOf(n)).join(', ')}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          empty
+        )}
+      </Section>
+    </div>
+  );
+};
+
+export default NeighborhoodPanel;
@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import Icon from '@/components/ui/icon';
+import type { NodeChanges, NodeType } from '@/graph';
+import { DEFAULT_NODE_SHAPE, NODE_SHAPES } from '@/lib/node-style';
+
+type NodeStyleEditorProps = {
+  node: NodeType;
+  onChange: (changes: NodeChanges) => void;
+};
+
+const ColorField = ({
+  label,
+  value,
+  fallback,
+  onChange,
+}: {
+  label: string;
+  value?: string;
+  fallback: string;
+  onChange: (color?: string) => void;
+}) => (
+  <div className="space-y-1">
+    <Label className="text-xs">{label}</Label>
+    <div className="flex items-center gap-1">
+      <input
+        type="color"
+        value={value ?? fallback}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 w-10 cursor-pointer rounded border bg-transparent p-1"
+      />
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={() => onChange(undefined)}
+        disabled={value === undefined}
+        className="h-8 w-8"
+        title="Как в теме"
+      >
+        <Icon name="RotateCcw" size={14} />
+      </Button>
+    </div>
+  </div>
+);
+
+const NodeStyleEditor = ({ node, onChange }: NodeStyleEditorProps) => {
+  const shape = node.shape ?? DEFAULT_NODE_SHAPE;
+  const sized = node.width !== undefined || node.height !== undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-6 gap-1">
+        {NODE_SHAPES.map(({ value, label, icon }) => (
+          <Button
+            key={value}
+            size="icon"
+            variant={shape === value ? 'secondary' : 'outline'}
+            onClick={() => onChange({ shape: value })}
+            className={`h-9 w-full ${shape === value ? 'ring-1 ring-primary' : ''}`}
+            title={label}
+          >
+            <Icon name={icon} size={16} />
+          </Button>
+        ))}
+      </div>
+      <div className="flex gap-4">
+        <ColorField label="Заливка" value={node.fill} fallback="#ffffff" onChange={(fill) => onChange({ fill })} />
+        <ColorField label="Рамка" value={node.border} fallback="#e5e7eb" onChange={(border) => onChange({ border })} />
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {sized ? `${node.width ?? '—'} × ${node.height ?? 'авто'}` : 'Размер по умолчанию'}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onChange({ width: undefined, height: undefined })}
+          disabled={!sized}
+          className="h-7 text-xs"
+        >
+          Сбросить размер
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NodeStyleEditor;
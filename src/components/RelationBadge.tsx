@@ -0,0 +1,18 @@
+import { Badge } from '@/components/ui/badge';
+import type { RelationType } from '@/graph';
+
+type RelationBadgeProps = {
+  type?: RelationType;
+  className?: string;
+};
+
+const RelationBadge = ({ type, className }: RelationBadgeProps) => (
+  <Badge
+    className={`border-transparent text-white hover:opacity-90 ${className ?? ''}`}
+    style={{ backgroundColor: type?.color ?? '#6b7280' }}
+  >
+    {type?.name || 'Без названия'}
+  </Badge>
+);
+
+export default RelationBadge;
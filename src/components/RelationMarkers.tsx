@@ -0,0 +1,40 @@
+import type { RelationType } from '@/graph';
+import { relationMarkerId } from '@/lib/relation-style';
+
+type RelationMarkersProps = {
+  types: readonly RelationType[];
+};
+
+const Arrowhead = ({ type }: { type: RelationType }) => {
+  switch (type.arrowhead) {
+    case 'triangle':
+      return <polygon points="0 0, 10 3, 0 6" fill={type.color} />;
+    case 'open':
+      return <polyline points="1 0.5, 9 3, 1 5.5" fill="none" stroke={type.color} strokeWidth={1.2} />;
+    case 'diamond':
+      return <polygon points="0 3, 5 0, 10 3, 5 6" fill={type.color} />;
+    case 'circle':
+      return <circle cx={6.5} cy={3} r={2.5} fill={type.color} />;
+  }
+};
+
+// Маркеры стрелок генерируются из реестра типов, по одному на каждый направленный тип
+const RelationMarkers = ({ types }: RelationMarkersProps) => (
+  <defs>
+    {types.filter(type => type.directed).map(type => (
+      <marker
+        key={type.id}
+        id={relationMarkerId(type.id)}
+        markerWidth="10"
+        markerHeight="10"
+        refX="9"
+        refY="3"
+        orient="auto"
+      >
+        <Arrowhead type={type} />
+      </marker>
+    ))}
+  </defs>
+);
+
+export default RelationMarkers;
@@ -0,0 +1,24 @@
+import type { RelationType } from '@/graph';
+import { DASH_PATTERNS } from '@/lib/relation-style';
+
+type RelationSwatchProps = {
+  type: RelationType;
+  className?: string;
+};
+
+const RelationSwatch = ({ type, className }: RelationSwatchProps) => (
+  <svg viewBox="0 0 24 8" className={`w-6 h-2 flex-shrink-0 ${className ?? ''}`}>
+    <line
+      x1={1}
+      y1={4}
+      x2={type.directed ? 19 : 23}
+      y2={4}
+      stroke={type.color}
+      strokeWidth={2}
+      strokeDasharray={DASH_PATTERNS[type.dash]}
+    />
+    {type.directed && <polygon points="17 0, 24 4, 17 8" fill={type.color} />}
+  </svg>
+);
+
+export default RelationSwatch;
@@ -0,0 +1,29 @@
+import { Button } from '@/components/ui/button';
+import RelationSwatch from '@/components/RelationSwatch';
+import { WIKI_RELATION, type RelationType } from '@/graph';
+
+type RelationTypePickerProps = {
+  types: readonly RelationType[];
+  value: string;
+  onChange: (id: string) => void;
+};
+
+const RelationTypePicker = ({ types, value, onChange }: RelationTypePickerProps) => (
+  <div className="flex flex-wrap gap-2">
+    {/* Вики-связи создаются только ссылками из текста */}
+    {types.filter(type => type.id !== WIKI_RELATION).map(type => (
+      <Button
+        key={type.id}
+        onClick={() => onChange(type.id)}
+        variant={value === type.id ? 'secondary' : 'outline'}
+        size="sm"
+        className={`h-8 text-xs ${value === type.id ? 'ring-1 ring-primary' : ''}`}
+      >
+        <RelationSwatch type={type} className="mr-1.5" />
+        <span className="truncate max-w-[120px]">{type.name || 'Без названия'}</span>
+      </Button>
+    ))}
+  </div>
+);
+
+export default RelationTypePicker;
@@ -0,0 +1,135 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import Icon from '@/components/ui/icon';
+import RelationSwatch from '@/components/RelationSwatch';
+import {
+  isBuiltinRelation,
+  type ArrowheadStyle,
+  type DashStyle,
+  type RelationType,
+  type RelationTypeChanges,
+} from '@/graph';
+import { ARROWHEAD_LABELS, DASH_LABELS } from '@/lib/relation-style';
+
+type RelationTypesDialogProps = {
+  types: readonly RelationType[];
+  usage: ReadonlyMap<string, number>;
+  onAdd: () => void;
+  onChange: (id: string, changes: RelationTypeChanges) => void;
+  onRemove: (id: string) => void;
+};
+
+const RelationTypesDialog = ({ types, usage, onAdd, onChange, onRemove }: RelationTypesDialogProps) => (
+  <Dialog>
+    <DialogTrigger asChild>
+      <Button size="icon" variant="ghost" className="h-8 w-8 md:h-9 md:w-9" title="Типы связей">
+        <Icon name="Spline" size={16} />
+      </Button>
+    </DialogTrigger>
+    <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Типы связей</DialogTitle>
+        <DialogDescription>
+          Реестр хранится в графе. Основная связь, псевдоним и вики-ссылка встроены, их можно настроить, но не
+          удалить.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-3">
+        {types.map(type => {
+          const count = usage.get(type.id) ?? 0;
+          return (
+            <div key={type.id} className="rounded border p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={type.color}
+                  onChange={(e) => onChange(type.id, { color: e.target.value })}
+                  className="h-9 w-9 flex-shrink-0 cursor-pointer rounded border bg-transparent p-1"
+                  title="Цвет"
+                />
+                <Input
+                  value={type.name}
+                  onChange={(e) => onChange(type.id, { name: e.target.value })}
+                  placeholder="Название"
+                  className="h-9 text-sm"
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => onRemove(type.id)}
+                  disabled={isBuiltinRelation(type.id)}
+                  className="h-9 w-9 flex-shrink-0"
+                  title={count > 0 ? `Удалить вместе со связями (${count})` : 'Удалить'}
+                >
+                  <Icon name="Trash2" size={16} />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Линия</Label>
+                  <Select value={type.dash} onValueChange={(dash) => onChange(type.id, { dash: dash as DashStyle })}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DASH_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Стрелка</Label>
+                  <Select
+                    value={type.arrowhead}
+                    onValueChange={(arrowhead) => onChange(type.id, { arrowhead: arrowhead as ArrowheadStyle })}
+                    disabled={!type.directed}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ARROWHEAD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-xs">
+                  <Switch
+                    checked={type.directed}
+                    onCheckedChange={(directed) => onChange(type.id, { directed })}
+                  />
+                  Направленная
+                </label>
+                <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <RelationSwatch type={type} />
+                  Связей: {count}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <Button onClick={onAdd} variant="outline" size="sm" className="w-full">
+        <Icon name="Plus" size={14} className="mr-2" />
+        Добавить тип
+      </Button>
+    </DialogContent>
+  </Dialog>
+);
+
+export default RelationTypesDialog;
@@ -0,0 +1,97 @@
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import type { GraphDocument } from '@/graph';
+
+type SelectionPanelProps = {
+  doc: GraphDocument;
+  selection: ReadonlySet<string>;
+  onSelectOnly: (id: string) => void;
+  onSetPinned: (pinned: boolean) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+};
+
+const SelectionPanel = ({
+  doc,
+  selection,
+  onSelectOnly,
+  onSetPinned,
+  onDuplicate,
+  onDelete,
+  onClear,
+}: SelectionPanelProps) => {
+  const selected = doc.nodes.filter(n => selection.has(n.id));
+  const touching = doc.edges.filter(e => selection.has(e.from) || selection.has(e.to));
+  const internal = touching.filter(e => selection.has(e.from) && selection.has(e.to));
+  const pinned = selected.filter(n => n.pinned).length;
+
+  const stats = [
+    { label: 'Узлов', value: selected.length },
+    { label: 'Связей внутри', value: internal.length },
+    { label: 'Связей наружу', value: touching.length - internal.length },
+    { label: 'Закреплено', value: pinned },
+  ];
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-3 md:mb-4">
+          <h3 className="font-semibold text-sm md:text-base">Выбрано узлов: {selected.length}</h3>
+          <Button size="icon" variant="ghost" onClick={onClear} className="h-8 w-8" title="Снять выделение">
+            <Icon name="X" size={18} />
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {stats.map(({ label, value }) => (
+            <div key={label} className="rounded bg-secondary p-2">
+              <div className="text-base md:text-lg font-semibold">{value}</div>
+              <div className="text-[10px] md:text-xs text-muted-foreground">{label}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Действия</h3>
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            onClick={() => onSetPinned(pinned < selected.length)}
+            variant="secondary"
+            size="sm"
+            className="h-9 text-xs md:text-sm"
+          >
+            <Icon name={pinned < selected.length ? 'Pin' : 'PinOff'} size={14} className="mr-1 md:mr-2" />
+            {pinned < selected.length ? 'Закрепить' : 'Открепить'}
+          </Button>
+          <Button onClick={onDuplicate} variant="secondary" size="sm" className="h-9 text-xs md:text-sm">
+            <Icon name="Copy" size={14} className="mr-1 md:mr-2" />
+            Дублировать
+          </Button>
+          <Button onClick={onDelete} variant="destructive" size="sm" className="col-span-2 h-9 text-xs md:text-sm">
+            <Icon name="Trash2" size={14} className="mr-1 md:mr-2" />
+            Удалить
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2 md:mb-3 text-sm md:text-base">Узлы</h3>
+        <div className="space-y-1">
+          {selected.map((node) => (
+            <button
+              key={node.id}
+              onClick={() => onSelectOnly(node.id)}
+              className="w-full flex items-center gap-2 p-2 rounded bg-secondary text-left text-xs hover:bg-secondary/70"
+            >
+              {node.pinned && <Icon name="Pin" size={12} className="flex-shrink-0" />}
+              <span className="truncate">{node.text || 'Без текста'}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SelectionPanel;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { edgesOf, findEdge, incomingEdges, indexGraph, neighborIds, outgoingEdges } from './adjacency';
+import { DEFAULT_RELATION_TYPES } from './relations';
+import type { GraphDocument } from './types';
+
+const doc: GraphDocument = {
+  nodes: ['a', 'b', 'c', 'd'].map(id => ({ id, text: id, x: 0, y: 0 })),
+  edges: [
+    { id: 'e1', from: 'a', to: 'b', type: 'primary' },
+    { id: 'e2', from: 'a', to: 'c', type: 'alias' },
+    { id: 'e3', from: 'c', to: 'a', type: 'primary' },
+    { id: 'e4', from: 'a', to: 'a', type: 'primary' },
+  ],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+const ids = (edges: readonly { id: string }[]) => edges.map(e => e.id);
+
+describe('индекс смежности', () => {
+  it('возвращает исходящие и входящие связи узла', () => {
+    expect(ids(outgoingEdges(doc, 'a'))).toEqual(['e1', 'e2', 'e4']);
+    expect(ids(incomingEdges(doc, 'a'))).toEqual(['e3', 'e4']);
+    expect(outgoingEdges(doc, 'd')).toEqual([]);
+  });
+
+  it('учитывает петлю среди связей узла один раз', () => {
+    expect(ids(edgesOf(doc, 'a'))).toEqual(['e1', 'e2', 'e4', 'e3']);
+    expect(neighborIds(doc, 'a')).toEqual(new Set(['a', 'b', 'c']));
+    expect(neighborIds(doc, 'd')).toEqual(new Set());
+  });
+
+  it('находит связь по концам и типу', () => {
+    expect(findEdge(doc, 'a', 'c')?.id).toBe('e2');
+    expect(findEdge(doc, 'a', 'c', 'primary')).toBeUndefined();
+    expect(findEdge(doc, 'c', 'a', 'primary')?.id).toBe('e3');
+  });
+
+  it('строит индекс один раз для документа', () => {
+    expect(indexGraph(doc)).toBe(indexGraph(doc));
+    expect(indexGraph({ ...doc })).not.toBe(indexGraph(doc));
+    expect(indexGraph(doc).nodeById.get('b')?.text).toBe('b');
+  });
+});
@@ -0,0 +1,56 @@
+import type { GraphDocument, NodeType, EdgeType, RelationType } from './types';
+
+export type GraphIndex = {
+  nodeById: ReadonlyMap<string, NodeType>;
+  edgeById: ReadonlyMap<string, EdgeType>;
+  relationById: ReadonlyMap<string, RelationType>;
+  outgoing: ReadonlyMap<string, readonly EdgeType[]>;
+  incoming: ReadonlyMap<string, readonly EdgeType[]>;
+};
+
+const NO_EDGES: readonly EdgeType[] = [];
+
+// Документ неизменяем, поэтому индекс можно кэшировать по ссылке
+const cache = new WeakMap<GraphDocument, GraphIndex>();
+
+export const indexGraph = (doc: GraphDocument): GraphIndex => {
+  const cached = cache.get(doc);
+  if (cached) return cached;
+
+  const outgoing = new Map<string, EdgeType[]>();
+  const incoming = new Map<string, EdgeType[]>();
+  for (const edge of doc.edges) {
+    if (!outgoing.has(edge.from)) outgoing.set(edge.from, []);
+    if (!incoming.has(edge.to)) incoming.set(edge.to, []);
+    outgoing.get(edge.from)!.push(edge);
+    incoming.get(edge.to)!.push(edge);
+  }
+
+  const index: GraphIndex = {
+    nodeById: new Map(doc.nodes.map(n => [n.id, n])),
+    edgeById: new Map(doc.edges.map(e => [e.id, e])),
+    relationById: new Map(doc.relationTypes.map(t => [t.id, t])),
+    outgoing,
+    incoming,
+  };
+  cache.set(doc, index);
+  return index;
+};
+
+export const outgoingEdges = (doc: GraphDocument, nodeId: string) =>
+  indexGraph(doc).outgoing.get(nodeId) ?? NO_EDGES;
+
+export const incomingEdges = (doc: GraphDocument, nodeId: string) =>
+  indexGraph(doc).incoming.get(nodeId) ?? NO_EDGES;
+
+export const edgesOf = (doc: GraphDocument, nodeId: string): readonly EdgeType[] => {
+  const outgoing = outgoingEdges(doc, nodeId);
+  const incoming = incomingEdges(doc, nodeId).filter(e => e.from !== nodeId);
+  return incoming.length ? [...outgoing, ...incoming] : outgoing;
+};
+
+export const neighborIds = (doc: GraphDocument, nodeId: string) =>
+  new Set(edgesOf(doc, nodeId).map(e => (e.from === nodeId ? e.to : e.from)));
+
+export const findEdge = (doc: GraphDocument, from: string, to: string, type?: EdgeType['type']) =>
+  outgoingEdges(doc, from).find(e => e.to === to && (type === undefined || e.type === type));
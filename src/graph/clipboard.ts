@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { createId } from './document';
+import {
+  edgeSchema,
+  nodeSchema,
+  relationTypeSchema,
+  serializeEdge,
+  serializeNode,
+  serializeRelationType,
+} from './formats/json';
+import type { EdgeType, GraphDocument, NodeType, RelationType } from './types';
+
+export const CLIPBOARD_FORMAT = 'graph-text-editor/subgraph';
+
+const subgraphSchema = z.object({
+  format: z.literal(CLIPBOARD_FORMAT),
+  version: z.literal(1),
+  nodes: z.array(nodeSchema),
+  edges: z.array(edgeSchema),
+  relationTypes: z.array(relationTypeSchema).default([]),
+});
+
+export type Subgraph = {
+  nodes: NodeType[];
+  edges: EdgeType[];
+  // Типы используемых связей нужны при вставке в другой граф
+  relationTypes: RelationType[];
+};
+
+// Копируются выбранные узлы и только те связи, оба конца которых выбраны
+export const extractSubgraph = (doc: GraphDocument, ids: ReadonlySet<string>): Subgraph => {
+  const edges = doc.edges.filter(e => ids.has(e.from) && ids.has(e.to));
+  const used = new Set(edges.map(e => e.type));
+  return {
+    nodes: doc.nodes.filter(n => ids.has(n.id)),
+    edges,
+    relationTypes: doc.relationTypes.filter(t => used.has(t.id)),
+  };
+};
+
+export const serializeSubgraph = ({ nodes, edges, relationTypes }: Subgraph) =>
+  JSON.stringify({
+    format: CLIPBOARD_FORMAT,
+    version: 1,
+    nodes: nodes.map(serializeNode),
+    edges: edges.map(serializeEdge),
+    relationTypes: relationTypes.map(serializeRelationType),
+  });
+
+// Чужой текст в буфере обмена — не ошибка, а повод не вставлять
+export const parseSubgraph = (text: string): Subgraph | null => {
+  try {
+    const result = subgraphSchema.safeParse(JSON.parse(text));
+    if (!result.success) return null;
+    const { nodes, edges, relationTypes } = result.data;
+    const ids = new Set(nodes.map(n => n.id));
+    return { nodes, edges: edges.filter(e => ids.has(e.from) && ids.has(e.to)), relationTypes };
+  } catch {
+    return null;
+  }
+};
+
+// Копия получает новые идентификаторы и сдвигается, чтобы не лечь поверх оригинала.
+// Из типов связей остаются только те, которых в документе ещё нет.
+export const instantiateSubgraph = (
+  doc: GraphDocument,
+  { nodes, edges, relationTypes }: Subgraph,
+  offset: { x: number; y: number }
+): Subgraph => {
+  const ids = new Map(nodes.map(n => [n.id, createId()]));
+  const known = new Set(doc.relationTypes.map(t => t.id));
+  return {
+    nodes: nodes.map(n => ({ ...n, id: ids.get(n.id)!, x: n.x + offset.x, y: n.y + offset.y })),
+    edges: edges.map(e => ({ ...e, id: createId(), from: ids.get(e.from)!, to: ids.get(e.to)! })),
+    relationTypes: relationTypes.filter(t => !known.has(t.id)),
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { applyCommand, invertCommand } from './commands';
+import { GraphIntegrityError } from './integrity';
+import { DEFAULT_RELATION_TYPES } from './relations';
+import type { GraphCommand, GraphDocument } from './types';
+
+const doc: GraphDocument = {
+  nodes: [
+    { id: 'a', text: 'A', x: 0, y: 0 },
+    { id: 'b', text: 'B', x: 100, y: 0 },
+  ],
+  edges: [{ id: 'e1', from: 'a', to: 'b', type: 'primary' }],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+const commands: [string, GraphCommand][] = [
+  ['вставка', { type: 'insert', nodes: [{ id: 'c', text: 'C', x: 0, y: 100 }], edges: [{ id: 'e2', from: 'b', to: 'c', type: 'alias' }] }],
+  ['удаление', { type: 'remove', nodes: [doc.nodes[1]], edges: [doc.edges[0]] }],
+  ['изменение', {
+    type: 'update',
+    nodes: [{ id: 'a', before: { text: 'A', x: 0 }, after: { text: 'Альфа', x: 50 } }],
+    edges: [{ id: 'e1', before: { type: 'primary' }, after: { type: 'alias' } }],
+  }],
+];
+
+describe('команды', () => {
+  it.each(commands)('%s отменяется обратной командой', (_, command) => {
+    const next = applyCommand(doc, command);
+    expect(next).not.toEqual(doc);
+    expect(applyCommand(next, invertCommand(command))).toEqual(doc);
+  });
+
+  it('применяет изменение к узлам и связям', () => {
+    const next = applyCommand(doc, commands[2][1]);
+    expect(next.nodes[0]).toEqual({ id: 'a', text: 'Альфа', x: 50, y: 0 });
+    expect(next.edges[0].type).toBe('alias');
+    expect(next.nodes[1]).toBe(doc.nodes[1]);
+  });
+
+  it('не применяет команду, которая оставляет связь без узла', () => {
+    expect(() => applyCommand(doc, { type: 'remove', nodes: [doc.nodes[0]], edges: [] })).toThrow(GraphIntegrityError);
+  });
+});
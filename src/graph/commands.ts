@@ -0,0 +1,87 @@
+import { assertIntegrity } from './integrity';
+import type { GraphCommand, GraphDocument, GraphPatch } from './types';
+
+const applyPatches = <T extends { id: string }>(
+  items: readonly T[],
+  patches: GraphPatch<T>[],
+  side: 'before' | 'after'
+) => {
+  if (patches.length === 0) return items;
+  const byId = new Map(patches.map(p => [p.id, p[side]]));
+  return items.map(item => (byId.has(item.id) ? { ...item, ...byId.get(item.id) } : item));
+};
+
+const runCommand = (doc: GraphDocument, command: GraphCommand): GraphDocument => {
+  switch (command.type) {
+    case 'insert':
+      return {
+        ...doc,
+        nodes: command.nodes.length ? [...doc.nodes, ...command.nodes] : doc.nodes,
+        edges: command.edges.length ? [...doc.edges, ...command.edges] : doc.edges,
+        relationTypes: command.relationTypes?.length
+          ? [...doc.relationTypes, ...command.relationTypes]
+          : doc.relationTypes,
+      };
+    case 'remove': {
+      const nodeIds = new Set(command.nodes.map(n => n.id));
+      const edgeIds = new Set(command.edges.map(e => e.id));
+      const typeIds = new Set(command.relationTypes?.map(t => t.id));
+      return {
+        ...doc,
+        nodes: nodeIds.size ? doc.nodes.filter(n => !nodeIds.has(n.id)) : doc.nodes,
+        edges: edgeIds.size ? doc.edges.filter(e => !edgeIds.has(e.id)) : doc.edges,
+        relationTypes: typeIds.size ? doc.relationTypes.filter(t => !typeIds.has(t.id)) : doc.relationTypes,
+      };
+    }
+    case 'update':
+      return {
+        ...doc,
+        nodes: applyPatches(doc.nodes, command.nodes, 'after'),
+        edges: applyPatches(doc.edges, command.edges, 'after'),
+        relationTypes: applyPatches(doc.relationTypes, command.relationTypes ?? [], 'after'),
+      };
+    case 'batch':
+      return command.commands.reduce(runCommand, doc);
+  }
+};
+
+// Перемещения и правка текста не затрагивают ссылки, их проверять незачем
+const affectsReferences = (command: GraphCommand): boolean =>
+  command.type === 'batch'
+    ? command.commands.some(affectsReferences)
+    : command.type !== 'update' || command.edges.length > 0;
+
+export const applyCommand = (doc: GraphDocument, command: GraphCommand) => {
+  const next = runCommand(doc, command);
+  if (affectsReferences(command)) assertIntegrity(next);
+  return next;
+};
+
+export const invertCommand = (command: GraphCommand): GraphCommand => {
+  switch (command.type) {
+    case 'insert':
+      return { ...command, type: 'remove' };
+    case 'remove':
+      return { ...command, type: 'insert' };
+    case 'update':
+      return {
+        type: 'update',
+        nodes: command.nodes.map(p => ({ id: p.id, before: p.after, after: p.before })),
+        edges: command.edges.map(p => ({ id: p.id, before: p.after, after: p.before })),
+        relationTypes: command.relationTypes?.map(p => ({ id: p.id, before: p.after, after: p.before })),
+      };
+    case 'batch':
+      return { type: 'batch', commands: command.commands.map(invertCommand).reverse() };
+  }
+};
+
+export const isEmptyCommand = (command: GraphCommand): boolean =>
+  command.type === 'batch'
+    ? command.commands.every(isEmptyCommand)
+    : command.nodes.length === 0 && command.edges.length === 0 && !command.relationTypes?.length;
+
+// Пустые части отбрасываются, единственная оставшаяся команда не оборачивается
+export const batchCommands = (commands: GraphCommand[]): GraphCommand => {
+  const parts = commands.filter(command => !isEmptyCommand(command));
+  return parts.length === 1 ? parts[0] : { type: 'batch', commands: parts };
+};
@@ -0,0 +1,18 @@
+import { DEFAULT_RELATION_TYPES } from './relations';
+import type { GraphDocument, Viewport } from './types';
+
+export const EMPTY_DOCUMENT: GraphDocument = { nodes: [], edges: [], relationTypes: DEFAULT_RELATION_TYPES };
+
+export const createDocument = (
+  nodes: GraphDocument['nodes'] = [],
+  edges: GraphDocument['edges'] = [],
+  relationTypes: GraphDocument['relationTypes'] = DEFAULT_RELATION_TYPES
+): GraphDocument => ({ nodes, edges, relationTypes });
+
+let idCounter = 0;
+
+// Счётчик гарантирует уникальность при создании многих узлов за одну миллисекунду
+export const createId = () =>
+  Date.now().toString(36) + (idCounter++).toString(36) + Math.random().toString(36).slice(2, 6);
+
+export const DEFAULT_VIEWPORT: Viewport = { pan: { x: 0, y: 0 }, zoom: 1 };
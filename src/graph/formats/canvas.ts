@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { createId } from '../document';
+import { MIN_NODE_HEIGHT, MIN_NODE_WIDTH, NODE_HEIGHT, NODE_WIDTH, nodeSize } from '../layout/common';
+import { PRIMARY_RELATION, WIKI_RELATION } from '../relations';
+import { parseWikiTarget, titleIndex, titleKey } from '../wiki';
+import type { EdgeType, GraphDocument, NodeType } from '../types';
+import {
+  createRelationRegistry,
+  createWarnings,
+  normalizeColor,
+  parseSize,
+  type ImportedGraph,
+} from './common';
+import { formatPath, GraphFileError } from './json';
+
+/**
+ * Обмен с Obsidian через открытый формат JSON Canvas 1.0 (jsoncanvas.org).
+ * Текстовые карточки становятся узлами с теми же координатами и размером,
+ * группы — узлами формы «группа», цвет карточки — заливкой. Карточка-файл
+ * записывается как [[путь]], карточка-ссылка — как [адрес](адрес), и при
+ * экспорте такие узлы снова становятся файлами и ссылками.
+ *
+ * Связи несут подпись и цвет; тип связи передаётся цветом, основная связь
+ * остаётся без цвета. Вики-связи в холст не пишутся: Obsidian выводит их
+ * из текста сам, а при импорте они восстанавливаются так же.
+ */
+
+export const CANVAS_FILE_EXTENSION = '.canvas';
+
+// Цвета-пресеты Obsidian и названия типов связей, которые из них получаются
+const PRESET_COLORS: Record<string, { color: string; name: string }> = {
+  '1': { color: '#fb464c', name: 'Красная' },
+  '2': { color: '#e9973f', name: 'Оранжевая' },
+  '3': { color: '#e0de71', name: 'Жёлтая' },
+  '4': { color: '#44cf6e', name: 'Зелёная' },
+  '5': { color: '#53dfdd', name: 'Голубая' },
+  '6': { color: '#a882ff', name: 'Фиолетовая' },
+};
+
+const toCanvasColor = (color?: string) => {
+  const hex = normalizeColor(color);
+  if (!hex) return undefined;
+  return Object.entries(PRESET_COLORS).find(([, preset]) => preset.color === hex)?.[0] ?? hex;
+};
+
+const fromCanvasColor = (color?: string) => (color && PRESET_COLORS[color]?.color) ?? normalizeColor(color);
+
+// ---------- Экспорт ----------
+
+const FILE_TEXT = /^\[\[([^\]|#]+)(#[^\]|]*)?\]\]$/;
+const LINK_TEXT = /^\[(https?:\/\/[^\]\s]+)\]\((https?:\/\/[^)\s]+)\)$/;
+
+type Side = 'top' | 'right' | 'bottom' | 'left';
+
+// Сторона карточки, обращённая к другой карточке
+const sideToward = (from: NodeType, to: NodeType): Side => {
+  const a = nodeSize(from);
+  const b = nodeSize(to);
+  const dx = to.x + b.width / 2 - (from.x + a.width / 2);
+  const dy = to.y + b.height / 2 - (from.y + a.height / 2);
+  if (Math.abs(dx) * a.height >= Math.abs(dy) * a.width) return dx >= 0 ? 'right' : 'left';
+  return dy >= 0 ? 'bottom' : 'top';
+};
+
+export const exportCanvas = (doc: GraphDocument) => {
+  const titles = titleIndex(doc);
+  const nodeById = new Map(doc.nodes.map(n => [n.id, n]));
+  const relationById = new Map(doc.relationTypes.map(t => [t.id, t]));
+
+  const nodes = doc.nodes.map(node => {
+    const { width, height } = nodeSize(node);
+    const base = { id: node.id, x: Math.round(node.x), y: Math.round(node.y), width, height, color: toCanvasColor(node.fill) };
+    if (node.shape === 'group') return { ...base, type: 'group', ...(node.text && { label: node.text }) };
+    const text = node.text.trim();
+    const file = text.match(FILE_TEXT);
+    // Ссылка на существующий узел остаётся вики-ссылкой, на что-то вне графа — файлом хранилища
+    if (file && !titles.has(titleKey(parseWikiTarget(file[1]).target))) {
+      return { ...base, type: 'file', file: file[1], ...(file[2] && { subpath: file[2] }) };
+    }
+    const link = text.match(LINK_TEXT);
+    if (link && link[1] === link[2]) return { ...base, type: 'link', url: link[2] };
+    return { ...base, type: 'text', text: node.text };
+  });
+
+  const edges = doc.edges
+    .filter(e => e.type !== WIKI_RELATION && nodeById.has(e.from) && nodeById.has(e.to))
+    .map(edge => {
+      const from = nodeById.get(edge.from)!;
+      const to = nodeById.get(edge.to)!;
+      const type = relationById.get(edge.type);
+      return {
+        id: edge.id,
+        fromNode: edge.from,
+        fromSide: sideToward(from, to),
+        toNode: edge.to,
+        toSide: sideToward(to, from),
+        ...(type && !type.directed && { toEnd: 'none' }),
+        ...(edge.type !== PRIMARY_RELATION && type && { color: toCanvasColor(type.color) }),
+        ...(edge.label && { label: edge.label }),
+      };
+    });
+
+  return `${JSON.stringify({ nodes, edges }, null, '\t')}\n`;
+};
+
+// ---------- Импорт ----------
+
+// Схема нестрогая: неизвестные поля и типы карточек не мешают разбору
+const canvasSchema = z.object({
+  nodes: z
+    .array(
+      z.object({
+        id: z.string(),
+        type: z.string(),
+        x: z.number(),
+        y: z.number(),
+        width: z.number(),
+        height: z.number(),
+        color: z.string().optional(),
+        text: z.string().optional(),
+        file: z.string().optional(),
+        subpath: z.string().optional(),
+        url: z.string().optional(),
+        label: z.string().optional(),
+        background: z.string().optional(),
+      })
+    )
+    .default([]),
+  edges: z
+    .array(
+      z.object({
+        id: z.string(),
+        fromNode: z.string(),
+        toNode: z.string(),
+        fromEnd: z.enum(['none', 'arrow']).optional(),
+        toEnd: z.enum(['none', 'arrow']).optional(),
+        color: z.string().optional(),
+        label: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+type CanvasNode = z.infer<typeof canvasSchema>['nodes'][number];
+
+const nodeText = (node: CanvasNode, warnings: ReturnType<typeof createWarnings>) => {
+  switch (node.type) {
+    case 'text':
+      return node.text ?? '';
+    case 'group':
+      return node.label ?? '';
+    case 'file':
+      return `[[${node.file ?? ''}${node.subpath ?? ''}]]`;
+    case 'link':
+      return node.url ? `[${node.url}](${node.url})` : '';
+    default:
+      warnings.add(`Карточки типа «${node.type}» импортированы как пустые узлы`);
+      return node.text ?? '';
+  }
+};
+
+export const importCanvas = (source: string): ImportedGraph => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch (error) {
+    throw new GraphFileError('Файл не является корректным JSON', [(error as Error).message]);
+  }
+  const result = canvasSchema.safeParse(raw);
+  if (!result.success) {
+    throw new GraphFileError(
+      'Файл не является холстом JSON Canvas',
+      result.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`)
+    );
+  }
+
+  const warnings = createWarnings();
+  const ids = new Map<string, string>();
+  const nodes: NodeType[] = result.data.nodes.map(canvasNode => {
+    const fill = fromCanvasColor(canvasNode.color);
+    const node: NodeType = {
+      id: createId(),
+      text: nodeText(canvasNode, warnings),
+      x: Math.round(canvasNode.x),
+      y: Math.round(canvasNode.y),
+      ...(canvasNode.type === 'group' && { shape: 'group' as const }),
+      ...(fill && { fill }),
+    };
+    if (canvasNode.background) warnings.add('Фоновые изображения групп не перенесены');
+    const width = parseSize(String(canvasNode.width), NODE_WIDTH, MIN_NODE_WIDTH);
+    const height = parseSize(String(canvasNode.height), NODE_HEIGHT, MIN_NODE_HEIGHT);
+    if (width !== undefined) node.width = width;
+    if (height !== undefined) node.height = height;
+    ids.set(canvasNode.id, node.id);
+    return node;
+  });
+
+  const registry = createRelationRegistry();
+  const edges: EdgeType[] = [];
+  for (const edge of result.data.edges) {
+    if (!ids.has(edge.fromNode) || !ids.has(edge.toNode)) {
+      warnings.add('Связи с несуществующими карточками пропущены');
+      continue;
+    }
+    const fromArrow = edge.fromEnd === 'arrow';
+    const toArrow = (edge.toEnd ?? 'arrow') === 'arrow';
+    if (fromArrow && toArrow) warnings.add('Двусторонние связи импортированы как направленные');
+    // Стрелка только у начала разворачивает связь
+    const reversed = fromArrow && !toArrow;
+    const preset = edge.color ? PRESET_COLORS[edge.color] : undefined;
+    const type = registry.resolve(
+      { color: fromCanvasColor(edge.color), directed: fromArrow || toArrow },
+      preset?.name
+    );
+    edges.push({
+      id: createId(),
+      from: ids.get(reversed ? edge.toNode : edge.fromNode)!,
+      to: ids.get(reversed ? edge.fromNode : edge.toNode)!,
+      type,
+      ...(edge.label && { label: edge.label }),
+    });
+  }
+
+  return { doc: { nodes, edges, relationTypes: registry.types() }, warnings: warnings.list() };
+};
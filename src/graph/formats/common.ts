@@ -0,0 +1,262 @@
+import { createId } from '../document';
+import { layeredLayout, nodeSize, type LayeredOrientation } from '../layout';
+import { DEFAULT_RELATION_TYPES, PRIMARY_RELATION, WIKI_RELATION } from '../relations';
+import type { ArrowheadStyle, DashStyle, GraphDocument, NodeType, RelationType } from '../types';
+import { childElements, xmlAttributes, type XmlElement } from './xml';
+
+// Результат импорта стороннего формата: документ и конструкции, которые пришлось пропустить
+export type ImportedGraph = {
+  doc: GraphDocument;
+  name?: string;
+  warnings: string[];
+};
+
+// Предупреждения копятся без повторов, чтобы сотня портов не дала сотню строк
+export const createWarnings = () => {
+  const warnings = new Set<string>();
+  return {
+    add: (message: string) => warnings.add(message),
+    list: () => [...warnings],
+  };
+};
+
+export type RelationStyle = Pick<RelationType, 'color' | 'dash' | 'arrowhead' | 'directed'>;
+
+const PRIMARY_STYLE = DEFAULT_RELATION_TYPES.find(t => t.id === PRIMARY_RELATION)!;
+
+/**
+ * Подбирает тип связи по оформлению: совпадение со встроенным или уже
+ * созданным типом переиспользует его, иначе заводится новый тип. Незаданные
+ * свойства берутся у основной связи. Если формат сохранил идентификатор
+ * типа, он важнее оформления: тип восстанавливается с тем же id, а
+ * заданные в файле название и оформление переносятся и на встроенный тип.
+ */
+export const createRelationRegistry = (base: readonly RelationType[] = DEFAULT_RELATION_TYPES) => {
+  const types = [...base];
+  const resolve = (style: Partial<RelationStyle>, name?: string, id?: string) => {
+    const full: RelationStyle = {
+      color: style.color ?? PRIMARY_STYLE.color,
+      dash: style.dash ?? PRIMARY_STYLE.dash,
+      arrowhead: style.arrowhead ?? PRIMARY_STYLE.arrowhead,
+      directed: style.directed ?? PRIMARY_STYLE.directed,
+    };
+    const known = id ? types.findIndex(t => t.id === id) : -1;
+    if (known >= 0) {
+      // Сохранённый тип, в том числе изменённый встроенный, получает оформление и название из файла
+      const defined = Object.fromEntries(Object.entries(style).filter(([, value]) => value !== undefined));
+      types[known] = { ...types[known], ...defined, ...(name && { name }) };
+      return id!;
+    }
+    // Вики-связи выводятся из текста, поэтому по оформлению их тип не подбирается
+    const existing = id ? undefined : types.find(
+      t =>
+        t.id !== WIKI_RELATION &&
+        (name === undefined || t.name === name) &&
+        t.color.toLowerCase() === full.color.toLowerCase() &&
+        t.dash === full.dash &&
+        t.arrowhead === full.arrowhead &&
+        t.directed === full.directed
+    );
+    if (existing) return existing.id;
+    const type: RelationType = { id: id || createId(), name: name ?? `Тип ${types.length + 1}`, ...full };
+    types.push(type);
+    return type.id;
+  };
+  return { resolve, types: () => types };
+};
+
+// Самые употребительные имена цветов из X11 и CSS
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  gray: '#808080',
+  grey: '#808080',
+  lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  purple: '#800080',
+  pink: '#ffc0cb',
+  brown: '#a52a2a',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+  navy: '#000080',
+  lightblue: '#add8e6',
+  lightyellow: '#ffffe0',
+  lightgreen: '#90ee90',
+};
+
+// Цвет приводится к виду #rrggbb; прозрачность отбрасывается, нераспознанное значение даёт undefined
+export const normalizeColor = (value?: string) => {
+  const color = value?.trim().toLowerCase();
+  if (!color) return undefined;
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+  const hex = color.match(/^#([0-9a-f]{6})(?:[0-9a-f]{2})?$|^#([0-9a-f]{3})$/);
+  if (!hex) return undefined;
+  return hex[1] ? `#${hex[1]}` : `#${[...hex[2]].map(c => c + c).join('')}`;
+};
+
+// Размер из файла; совпадающий с размером по умолчанию не сохраняется
+export const parseSize = (value: string | undefined, fallback: number, min: number) => {
+  const size = value === undefined ? NaN : parseFloat(value);
+  if (!Number.isFinite(size) || Math.round(size) === fallback) return undefined;
+  return Math.max(min, Math.round(size));
+};
+
+// Пользовательские атрибуты объявляются с типом, который подходит всем значениям, чтобы числа остались числами
+export const customAttributes = (items: readonly { attributes?: Record<string, string> }[]) => {
+  const values = new Map<string, string[]>();
+  for (const item of items) {
+    for (const [name, value] of Object.entries(item.attributes ?? {})) values.set(name, [...(values.get(name) ?? []), value]);
+  }
+  return [...values].map(([name, list]) => ({
+    name,
+    type: list.every(v => v.trim() !== '' && Number.isFinite(Number(v)))
+      ? 'double'
+      : list.every(v => v === 'true' || v === 'false')
+        ? 'boolean'
+        : 'string',
+  }));
+};
+
+/**
+ * Реестр типов связей в GraphML и GEXF пишется целиком, вместе с типами без
+ * связей и изменёнными встроенными, элементами в пространстве имён редактора,
+ * которые yEd и Gephi пропускают.
+ */
+export const EDITOR_NAMESPACE = 'urn:graph-text-editor';
+
+export const relationTypeElements = (types: readonly RelationType[]) =>
+  types.map(type => `<gte:relationType${xmlAttributes({ ...type })}/>`);
+
+const DASHES = new Set<string>(['solid', 'dashed', 'dotted']);
+const ARROWHEADS = new Set<string>(['triangle', 'open', 'diamond', 'circle']);
+
+export const readRelationTypes = (
+  container: XmlElement | undefined,
+  registry: ReturnType<typeof createRelationRegistry>
+) => {
+  for (const element of container ? childElements(container, 'relationType') : []) {
+    const { id, name, color, dash, arrowhead, directed } = element.attributes;
+    if (!id) continue;
+    registry.resolve(
+      {
+        color: normalizeColor(color),
+        dash: DASHES.has(dash) ? (dash as DashStyle) : undefined,
+        arrowhead: ARROWHEADS.has(arrowhead) ? (arrowhead as ArrowheadStyle) : undefined,
+        directed: directed === undefined ? undefined : directed === 'true',
+      },
+      name,
+      id
+    );
+  }
+};
+
+// Заливки групп, цвет которых файл не задаёт
+export const GROUP_FILLS = ['#dbeafe', '#dcfce7', '#fef3c7', '#fce7f3', '#ede9fe', '#cffafe'];
+
+// Группа из файла: узел формы «группа» и идентификаторы её узлов и вложенных групп
+export type ImportedGroup = { node: NodeType; members: string[] };
+
+const GROUP_PADDING = 24;
+const GROUP_HEADER = 48;
+
+/**
+ * Вызывается после раскладки: рамка каждой группы охватывает её узлы и
+ * вложенные группы с отступом и местом под заголовок. Группы встают в начало
+ * списка узлов, внешние раньше вложенных, чтобы рисоваться под ними.
+ */
+export const frameGroups = (doc: GraphDocument, groups: readonly ImportedGroup[]): GraphDocument => {
+  if (!groups.length) return doc;
+  const nodeById = new Map(doc.nodes.map(n => [n.id, n]));
+  const groupById = new Map(groups.map(group => [group.node.id, group]));
+  const framed = new Map<string, NodeType>();
+  const depth = new Map<string, number>();
+
+  const frame = (group: ImportedGroup, level: number): NodeType => {
+    depth.set(group.node.id, level);
+    const boxes = group.members.flatMap(id => {
+      const nested = groupById.get(id);
+      const node = nested ? framed.get(id) ?? frame(nested, level + 1) : nodeById.get(id);
+      return node ? [{ x: node.x, y: node.y, ...nodeSize(node) }] : [];
+    });
+    let node = group.node;
+    if (boxes.length) {
+      const left = Math.min(...boxes.map(b => b.x));
+      const top = Math.min(...boxes.map(b => b.y));
+      const right = Math.max(...boxes.map(b => b.x + b.width));
+      const bottom = Math.max(...boxes.map(b => b.y + b.height));
+      node = {
+        ...node,
+        x: Math.round(left - GROUP_PADDING),
+        y: Math.round(top - GROUP_HEADER),
+        width: Math.round(right - left + GROUP_PADDING * 2),
+        height: Math.round(bottom - top + GROUP_HEADER + GROUP_PADDING),
+      };
+    }
+    framed.set(node.id, node);
+    return node;
+  };
+
+  const nested = new Set(groups.flatMap(group => group.members));
+  for (const group of groups) if (!nested.has(group.node.id)) frame(group, 0);
+  const ordered = groups
+    .map(group => framed.get(group.node.id) ?? group.node)
+    .sort((a, b) => (depth.get(a.id) ?? 0) - (depth.get(b.id) ?? 0));
+  return { ...doc, nodes: [...ordered, ...doc.nodes] };
+};
+
+/**
+ * В редакторе принадлежность группе задаётся только рамкой: узел входит в
+ * самую маленькую группу, которая охватывает его целиком. Группы одного
+ * размера вкладываются по порядку, чтобы не оказаться внутри друг друга.
+ */
+export const groupParents = (doc: GraphDocument) => {
+  const boxes = new Map(doc.nodes.map((n, index) => [n.id, { x: n.x, y: n.y, ...nodeSize(n), index }]));
+  const groups = doc.nodes.filter(n => n.shape === 'group').map(n => ({ id: n.id, ...boxes.get(n.id)! }));
+  const parents = new Map<string, string>();
+  for (const node of doc.nodes) {
+    const box = boxes.get(node.id)!;
+    const area = box.width * box.height;
+    let best: (typeof groups)[number] | undefined;
+    for (const group of groups) {
+      const groupArea = group.width * group.height;
+      const inside =
+        group.id !== node.id &&
+        box.x >= group.x &&
+        box.y >= group.y &&
+        box.x + box.width <= group.x + group.width &&
+        box.y + box.height <= group.y + group.height &&
+        (groupArea > area || group.index < box.index);
+      const bestArea = best ? best.width * best.height : Infinity;
+      if (inside && (groupArea < bestArea || (groupArea === bestArea && group.index > best!.index))) best = group;
+    }
+    if (best) parents.set(node.id, best.id);
+  }
+  return parents;
+};
+
+/**
+ * Если координаты известны не для всех узлов, граф раскладывается заново
+ * послойно, причём иерархию задают связи любого типа.
+ */
+export const placeNodes = (
+  doc: GraphDocument,
+  positioned: ReadonlySet<string>,
+  warnings: ReturnType<typeof createWarnings>,
+  orientation?: LayeredOrientation
+): GraphDocument => {
+  if (doc.nodes.every(n => positioned.has(n.id))) return doc;
+  if (positioned.size > 0) warnings.add('Координаты заданы не для всех узлов — применена автоматическая раскладка');
+  const positions = layeredLayout({
+    ...doc,
+    edges: doc.edges.map(e => ({ ...e, type: PRIMARY_RELATION })),
+  }, orientation && { orientation });
+  return {
+    ...doc,
+    nodes: doc.nodes.map(n => ({ ...n, ...positions.get(n.id) })),
+  };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RELATION_TYPES } from '../relations';
+import type { GraphDocument } from '../types';
+import { exportDot, importDot } from './dot';
+
+const graph: GraphDocument = {
+  nodes: [
+    { id: 'outer', text: 'Внешняя', x: -40, y: -60, width: 520, height: 400, shape: 'group', fill: '#dbeafe' },
+    { id: 'inner', text: 'Внутренняя', x: 200, y: 100, width: 260, height: 200, shape: 'group', fill: '#dcfce7' },
+    { id: 'a', text: 'заканчивается на \\', x: 0, y: 0 },
+    { id: 'b', text: 'кавычка " и \\n не перевод', x: 240, y: 160 },
+    { id: 'c', text: 'Снаружи', x: 700, y: 0 },
+  ],
+  edges: [
+    { id: 'e1', from: 'a', to: 'b', type: 'primary', notes: 'первая\nвторая \\ строка' },
+    { id: 'e2', from: 'b', to: 'c', type: 'alias', label: 'подпись\\' },
+    { id: 'e3', from: 'outer', to: 'c', type: 'primary' },
+  ],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+const byText = (doc: GraphDocument, text: string) => doc.nodes.find(n => n.text === text)!;
+
+describe('DOT', () => {
+  it('восстанавливает текст, подписи и заметки с обратной косой чертой', () => {
+    const { doc, warnings } = importDot(exportDot(graph));
+    expect(warnings).toEqual([]);
+    expect(doc.nodes.map(n => n.text).sort()).toEqual(graph.nodes.map(n => n.text).sort());
+    expect(doc.edges.map(e => [e.label, e.notes])).toEqual([
+      [undefined, 'первая\nвторая \\ строка'],
+      ['подпись\\', undefined],
+    ]);
+  });
+
+  it('пишет группы кластерами и восстанавливает их', () => {
+    const source = exportDot(graph);
+    expect(source).toContain('subgraph "cluster_outer" {');
+    expect(source).toContain('    subgraph "cluster_inner" {');
+    const { doc } = importDot(source);
+    const outer = byText(doc, 'Внешняя');
+    const inner = byText(doc, 'Внутренняя');
+    expect([outer.shape, outer.fill, inner.shape, inner.fill]).toEqual(['group', '#dbeafe', 'group', '#dcfce7']);
+    const b = byText(doc, 'кавычка " и \\n не перевод');
+    const c = byText(doc, 'Снаружи');
+    expect(b.x >= inner.x && b.y >= inner.y && inner.x >= outer.x && inner.y >= outer.y).toBe(true);
+    expect(c.x >= outer.x + outer.width!).toBe(true);
+  });
+
+  it('сохраняет рамку пустой группы', () => {
+    const empty: GraphDocument = {
+      ...graph,
+      nodes: [{ id: 'g', text: 'Пустая', x: 10, y: 20, width: 300, height: 200, shape: 'group', fill: '#fef3c7' }],
+      edges: [],
+    };
+    expect(importDot(exportDot(empty)).doc.nodes).toEqual([{ ...empty.nodes[0], id: expect.any(String) }]);
+  });
+});
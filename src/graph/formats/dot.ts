@@ -0,0 +1,573 @@
+import { createId } from '../document';
+import { MIN_NODE_HEIGHT, MIN_NODE_WIDTH, NODE_HEIGHT, NODE_WIDTH, nodeSize } from '../layout/common';
+import { isBuiltinRelation } from '../relations';
+import type { ArrowheadStyle, DashStyle, EdgeType, GraphDocument, NodeShape, NodeType } from '../types';
+import {
+  GROUP_FILLS,
+  createRelationRegistry,
+  createWarnings,
+  frameGroups,
+  groupParents,
+  normalizeColor,
+  placeNodes,
+  type ImportedGraph,
+  type ImportedGroup,
+  type RelationStyle,
+} from './common';
+import { GraphFileError } from './json';
+
+/**
+ * Обмен с Graphviz. Экспорт пишет digraph, где у узлов есть label, форма,
+ * цвета, размер в дюймах и pos — центр в пунктах с осью Y вверх, как у neato.
+ * Связи несут оформление своего типа, а в атрибутах class и relation — его
+ * идентификатор и название, чтобы при обратном импорте тип восстановился.
+ * Группы пишутся кластерами вокруг узлов, которые лежат в их рамке, с рамкой
+ * в bb; связи с самими группами в DOT не выразить, и они не записываются.
+ *
+ * Импорт понимает практическое подмножество DOT: graph и digraph, атрибуты
+ * по умолчанию, цепочки связей, подграфы (в том числе как концы связей).
+ * Кластеры (subgraph cluster…) становятся узлами-группами вокруг своих узлов.
+ * Порты, HTML-подписи и прочие неподдерживаемые конструкции пропускаются с
+ * предупреждением.
+ */
+
+export const DOT_FILE_EXTENSION = '.dot';
+
+const POINTS_PER_INCH = 72;
+
+// ---------- Экспорт ----------
+
+const quote = (value: string) =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+const formatAttributes = (attributes: Record<string, string | number | undefined>) => {
+  const parts = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${typeof value === 'number' ? value : quote(value!)}`);
+  return parts.length ? ` [${parts.join(', ')}]` : '';
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const SHAPE_TO_DOT: Record<NodeShape, { shape: string; style?: string }> = {
+  rectangle: { shape: 'box' },
+  rounded: { shape: 'box', style: 'rounded' },
+  ellipse: { shape: 'ellipse' },
+  diamond: { shape: 'diamond' },
+  sticky: { shape: 'note' },
+  group: { shape: 'box', style: 'dashed' },
+};
+
+const ARROWHEAD_TO_DOT: Record<ArrowheadStyle, string> = {
+  triangle: 'normal',
+  open: 'vee',
+  diamond: 'diamond',
+  circle: 'dot',
+};
+
+const exportNode = (node: NodeType, indent: string) => {
+  const { width, height } = nodeSize(node);
+  const { shape, style } = SHAPE_TO_DOT[node.shape ?? 'rounded'];
+  const styles = [style, node.fill && 'filled'].filter(Boolean).join(',');
+  const center = { x: node.x + width / 2, y: node.y + height / 2 };
+  return `${indent}${quote(node.id)}${formatAttributes({
+    label: node.text,
+    shape,
+    style: styles,
+    fillcolor: node.fill,
+    color: node.border,
+    width: round(width / POINTS_PER_INCH),
+    height: round(height / POINTS_PER_INCH),
+    pos: `${round(center.x)},${round(-center.y)}${node.pinned ? '!' : ''}`,
+  })};`;
+};
+
+const exportGroup = (group: NodeType, indent: string) => {
+  const { width, height } = nodeSize(group);
+  return `${indent}graph${formatAttributes({
+    label: group.text,
+    style: group.fill && 'filled',
+    fillcolor: group.fill,
+    color: group.border,
+    bb: [group.x, -(group.y + height), group.x + width, -group.y].map(round).join(','),
+  })};`;
+};
+
+export const exportDot = (doc: GraphDocument, name = '') => {
+  const relationById = new Map(doc.relationTypes.map(t => [t.id, t]));
+  const lines = [name ? `digraph ${quote(name)} {` : 'digraph {'];
+
+  const parents = groupParents(doc);
+  const children = new Map<string | undefined, NodeType[]>();
+  for (const node of doc.nodes) {
+    const parent = parents.get(node.id);
+    children.set(parent, [...(children.get(parent) ?? []), node]);
+  }
+  const writeNodes = (parent: string | undefined, indent: string) => {
+    for (const node of children.get(parent) ?? []) {
+      if (node.shape !== 'group') {
+        lines.push(exportNode(node, indent));
+        continue;
+      }
+      lines.push(`${indent}subgraph ${quote(`cluster_${node.id}`)} {`, exportGroup(node, `${indent}  `));
+      writeNodes(node.id, `${indent}  `);
+      lines.push(`${indent}}`);
+    }
+  };
+  writeNodes(undefined, '  ');
+
+  const groupIds = new Set(doc.nodes.filter(n => n.shape === 'group').map(n => n.id));
+  for (const edge of doc.edges) {
+    if (groupIds.has(edge.from) || groupIds.has(edge.to)) continue;
+    const type = relationById.get(edge.type);
+    lines.push(
+      `  ${quote(edge.from)} -> ${quote(edge.to)}${formatAttributes({
+        class: edge.type,
+        relation: type?.name,
+        color: type?.color,
+        style: type?.dash,
+        arrowhead: type ? ARROWHEAD_TO_DOT[type.arrowhead] : undefined,
+        dir: type && !type.directed ? 'none' : undefined,
+        label: edge.label,
+        comment: edge.notes,
+      })};`
+    );
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
+
+// ---------- Разбор ----------
+
+type Token =
+  | { kind: 'id'; value: string; quoted: boolean; line: number }
+  | { kind: 'html'; value: string; line: number }
+  | { kind: 'punct'; value: string; line: number };
+
+const syntaxError = (line: number, message: string) =>
+  new GraphFileError('Не удалось разобрать файл DOT', [`Строка ${line}: ${message}`]);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let pos = 0;
+  // Строки препроцессора C начинаются с # и целиком пропускаются
+  let lineStart = 0;
+  while (pos < source.length) {
+    const char = source[pos];
+    if (char === '\n') {
+      line++;
+      lineStart = ++pos;
+    } else if (/\s/.test(char)) {
+      pos++;
+    } else if (source.startsWith('//', pos) || (char === '#' && !source.slice(lineStart, pos).trim())) {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+    } else if (source.startsWith('/*', pos)) {
+      const end = source.indexOf('*/', pos + 2);
+      if (end < 0) throw syntaxError(line, 'незакрытый комментарий');
+      line += source.slice(pos, end).split('\n').length - 1;
+      pos = end + 2;
+    } else if (char === '"') {
+      const start = line;
+      let value = '';
+      for (pos++; pos < source.length && source[pos] !== '"'; pos++) {
+        // Экранирована только кавычка; пара \\ остаётся для разбора подписи, но кавычку за ней не экранирует
+        if (source[pos] === '\\' && source[pos + 1] === '"') value += source[++pos];
+        else if (source[pos] === '\\' && source[pos + 1] === '\\') value += source[pos] + source[++pos];
+        else if (source[pos] === '\\' && source[pos + 1] === '\n') {
+          pos++;
+          line++;
+        } else {
+          if (source[pos] === '\n') line++;
+          value += source[pos];
+        }
+      }
+      if (pos >= source.length) throw syntaxError(start, 'незакрытая кавычка');
+      pos++;
+      tokens.push({ kind: 'id', value, quoted: true, line: start });
+    } else if (char === '<') {
+      const start = line;
+      let depth = 0;
+      let end = pos;
+      for (; end < source.length; end++) {
+        if (source[end] === '<') depth++;
+        else if (source[end] === '>' && --depth === 0) break;
+        else if (source[end] === '\n') line++;
+      }
+      if (end >= source.length) throw syntaxError(start, 'незакрытая HTML-подпись');
+      tokens.push({ kind: 'html', value: source.slice(pos + 1, end), line: start });
+      pos = end + 1;
+    } else if (source.startsWith('->', pos) || source.startsWith('--', pos)) {
+      tokens.push({ kind: 'punct', value: source.slice(pos, pos + 2), line });
+      pos += 2;
+    } else if ('{}[]=;,:+'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char, line });
+      pos++;
+    } else {
+      const match = /^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(source.slice(pos));
+      if (!match) throw syntaxError(line, `неожиданный символ «${char}»`);
+      tokens.push({ kind: 'id', value: match[0], quoted: false, line });
+      pos += match[0].length;
+    }
+  }
+  return tokens;
+};
+
+type Attributes = Record<string, string>;
+
+type Scope = { node: Attributes; edge: Attributes; group?: number };
+
+type ParsedNode = { id: string; attributes: Attributes; group?: number };
+
+type ParsedEdge = { from: string; to: string; attributes: Attributes };
+
+type ParsedGroup = { attributes: Attributes; parent?: number };
+
+type ParsedGraph = {
+  name?: string;
+  directed: boolean;
+  nodes: Map<string, ParsedNode>;
+  edges: ParsedEdge[];
+  groups: ParsedGroup[];
+};
+
+const parseTokens = (tokens: Token[], warnings: ReturnType<typeof createWarnings>): ParsedGraph => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const lastLine = () => tokens[tokens.length - 1]?.line ?? 1;
+  const isPunct = (value: string) => peek()?.kind === 'punct' && peek().value === value;
+  const isKeyword = (value: string) => {
+    const token = peek();
+    return token?.kind === 'id' && !token.quoted && token.value.toLowerCase() === value;
+  };
+  const expect = (value: string) => {
+    if (!isPunct(value)) throw syntaxError(peek()?.line ?? lastLine(), `ожидалось «${value}»`);
+    index++;
+  };
+
+  // Идентификатор, строка с конкатенацией через + или HTML-строка
+  const readId = (): string => {
+    const token = peek();
+    if (!token || token.kind === 'punct') throw syntaxError(token?.line ?? lastLine(), 'ожидался идентификатор');
+    index++;
+    if (token.kind === 'html') {
+      warnings.add('HTML-подписи переведены в обычный текст');
+      return token.value.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').trim();
+    }
+    let value = token.value;
+    while (token.quoted && isPunct('+') && tokens[index + 1]?.kind === 'id') {
+      index++;
+      value += tokens[index++].value;
+    }
+    return value;
+  };
+
+  const graph: ParsedGraph = { directed: true, nodes: new Map(), edges: [], groups: [] };
+
+  if (isKeyword('strict')) {
+    index++;
+    warnings.add('Модификатор strict не поддерживается: повторяющиеся связи сохранены');
+  }
+  if (isKeyword('digraph')) graph.directed = true;
+  else if (isKeyword('graph')) graph.directed = false;
+  else throw syntaxError(peek()?.line ?? 1, 'ожидалось graph или digraph');
+  index++;
+  if (!isPunct('{')) graph.name = readId();
+
+  const touchNode = (id: string, scope: Scope) => {
+    let node = graph.nodes.get(id);
+    if (!node) {
+      node = { id, attributes: { ...scope.node } };
+      graph.nodes.set(id, node);
+    }
+    if (node.group === undefined && scope.group !== undefined) node.group = scope.group;
+    return node;
+  };
+
+  const readAttributes = () => {
+    const attributes: Attributes = {};
+    while (isPunct('[')) {
+      index++;
+      while (!isPunct(']')) {
+        const key = readId();
+        expect('=');
+        attributes[key] = readId();
+        if (isPunct(',') || isPunct(';')) index++;
+      }
+      index++;
+    }
+    return attributes;
+  };
+
+  const readNodeId = (scope: Scope) => {
+    const id = readId();
+    if (isPunct(':')) {
+      warnings.add('Порты узлов (узел:порт) не поддерживаются и пропущены');
+      index++;
+      readId();
+      if (isPunct(':')) {
+        index++;
+        readId();
+      }
+    }
+    touchNode(id, scope);
+    return [id];
+  };
+
+  // Возвращает узлы, упомянутые в операнде связи: один узел или весь подграф
+  const readOperand = (scope: Scope): string[] => {
+    if (isKeyword('subgraph') || isPunct('{')) return readSubgraph(scope);
+    return readNodeId(scope);
+  };
+
+  const readSubgraph = (parent: Scope): string[] => {
+    let name: string | undefined;
+    if (isKeyword('subgraph')) {
+      index++;
+      if (!isPunct('{')) name = readId();
+    }
+    // Как и в Graphviz, группой считается только подграф cluster…
+    const cluster = name?.toLowerCase().startsWith('cluster') ? { attributes: {}, parent: parent.group } : undefined;
+    const group = cluster ? graph.groups.push(cluster) - 1 : parent.group;
+    const scope: Scope = { node: { ...parent.node }, edge: { ...parent.edge }, group };
+    expect('{');
+    const mentioned = readStatements(scope, cluster);
+    expect('}');
+    return mentioned;
+  };
+
+  const readStatements = (scope: Scope, group?: ParsedGroup): string[] => {
+    const mentioned = new Set<string>();
+    while (peek() && !isPunct('}')) {
+      if (isKeyword('node') || isKeyword('edge') || isKeyword('graph')) {
+        const kind = peek().value.toLowerCase();
+        index++;
+        const attributes = readAttributes();
+        if (kind === 'node') Object.assign(scope.node, attributes);
+        else if (kind === 'edge') Object.assign(scope.edge, attributes);
+        else if (group) Object.assign(group.attributes, attributes);
+      } else if (peek().kind === 'id' && tokens[index + 1]?.kind === 'punct' && tokens[index + 1].value === '=') {
+        const key = readId();
+        index++;
+        const value = readId();
+        if (group) group.attributes[key] = value;
+      } else {
+        let operands = readOperand(scope);
+        operands.forEach(id => mentioned.add(id));
+        const chain: string[][] = [operands];
+        while (isPunct('->') || isPunct('--')) {
+          if ((peek().value === '->') !== graph.directed) {
+            throw syntaxError(peek().line, graph.directed ? 'в digraph связи задаются через ->' : 'в graph связи задаются через --');
+          }
+          index++;
+          operands = readOperand(scope);
+          operands.forEach(id => mentioned.add(id));
+          chain.push(operands);
+        }
+        const attributes = readAttributes();
+        if (chain.length === 1) {
+          for (const id of chain[0]) Object.assign(graph.nodes.get(id)!.attributes, attributes);
+        } else {
+          for (let k = 0; k + 1 < chain.length; k++) {
+            for (const from of chain[k]) {
+              for (const to of chain[k + 1]) {
+                graph.edges.push({ from, to, attributes: { ...scope.edge, ...attributes } });
+              }
+            }
+          }
+        }
+      }
+      if (isPunct(';') || isPunct(',')) index++;
+    }
+    return [...mentioned];
+  };
+
+  expect('{');
+  readStatements({ node: {}, edge: {} });
+  expect('}');
+  if (peek()) throw syntaxError(peek().line, 'лишний текст после графа');
+  return graph;
+};
+
+// ---------- Перевод в документ ----------
+
+const DOT_SHAPES: Record<string, NodeShape> = {
+  box: 'rectangle',
+  rect: 'rectangle',
+  rectangle: 'rectangle',
+  square: 'rectangle',
+  plaintext: 'rectangle',
+  plain: 'rectangle',
+  none: 'rectangle',
+  ellipse: 'ellipse',
+  oval: 'ellipse',
+  circle: 'ellipse',
+  doublecircle: 'ellipse',
+  diamond: 'diamond',
+  note: 'sticky',
+  record: 'rectangle',
+  mrecord: 'rounded',
+};
+
+const DOT_ARROWHEADS: Record<string, ArrowheadStyle> = {
+  normal: 'triangle',
+  inv: 'triangle',
+  empty: 'open',
+  onormal: 'open',
+  vee: 'open',
+  open: 'open',
+  diamond: 'diamond',
+  odiamond: 'diamond',
+  ediamond: 'diamond',
+  dot: 'circle',
+  odot: 'circle',
+};
+
+// Escape-последовательности подписей Graphviz: переводы строк и подстановка имён
+const decodeLabel = (label: string, nodeId: string, graphName: string) =>
+  label.replace(/\\([nlrNG\\])/g, (_, c: string) => {
+    if (c === 'N') return nodeId;
+    if (c === 'G') return graphName;
+    return c === '\\' ? '\\' : '\n';
+  }).replace(/\n$/, '');
+
+// Строки, записанные экспортом через quote: перевод строки и обратная косая черта
+const decodeString = (value: string) => value.replace(/\\([n\\])/g, (_, c: string) => (c === 'n' ? '\n' : '\\'));
+
+// Рамка кластера bb: левый нижний и правый верхний углы в пунктах, ось Y вверх
+const parseBox = (bb: string | undefined) => {
+  const values = bb?.split(',').map(parseFloat) ?? [];
+  if (values.length !== 4 || !values.every(Number.isFinite)) return undefined;
+  const [left, bottom, right, top] = values;
+  return { x: Math.round(left), y: Math.round(-top), width: Math.round(right - left), height: Math.round(top - bottom) };
+};
+
+const styleWords = (style?: string) => new Set((style ?? '').split(/[\s,]+/).filter(Boolean).map(s => s.toLowerCase()));
+
+const parsePosition = (pos: string | undefined) => {
+  const match = pos?.match(/^\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*(!?)/);
+  if (!match) return undefined;
+  return { x: parseFloat(match[1]), y: -parseFloat(match[2]), pinned: match[3] === '!' };
+};
+
+const toSize = (inches: string | undefined, fallback: number, min: number) => {
+  const value = inches === undefined ? NaN : parseFloat(inches) * POINTS_PER_INCH;
+  if (!Number.isFinite(value) || Math.round(value) === fallback) return undefined;
+  return Math.max(min, Math.round(value));
+};
+
+export const importDot = (source: string): ImportedGraph => {
+  const warnings = createWarnings();
+  const parsed = parseTokens(tokenize(source), warnings);
+  const name = parsed.name && decodeString(parsed.name);
+  const graphName = name ?? '';
+  const ids = new Map<string, string>();
+  const positioned = new Set<string>();
+
+  const groups: ImportedGroup[] = parsed.groups.map((group, i) => {
+    const words = styleWords(group.attributes.style);
+    const explicit = group.attributes.bgcolor ?? (words.has('filled') ? group.attributes.fillcolor ?? group.attributes.color : undefined);
+    const border = explicit === group.attributes.color ? undefined : normalizeColor(group.attributes.color);
+    const node: NodeType = {
+      id: createId(),
+      text: decodeLabel(group.attributes.label ?? '', '', graphName),
+      x: 0,
+      y: 0,
+      shape: 'group',
+      fill: normalizeColor(explicit) ?? GROUP_FILLS[i % GROUP_FILLS.length],
+      ...(border && { border }),
+      // Пустая группа сохраняет рамку из файла, остальные обрамляются по своим узлам
+      ...parseBox(group.attributes.bb),
+    };
+    return { node, members: [] };
+  });
+  parsed.groups.forEach((group, i) => {
+    if (group.parent !== undefined) groups[group.parent].members.push(groups[i].node.id);
+  });
+
+  const nodes: NodeType[] = [...parsed.nodes.values()].map(({ id: dotId, attributes, group }) => {
+    const id = createId();
+    ids.set(dotId, id);
+    if (group !== undefined) groups[group].members.push(id);
+    const words = styleWords(attributes.style);
+    if (words.has('invis')) warnings.add('Невидимые узлы импортированы как обычные');
+
+    const shapeName = attributes.shape?.toLowerCase();
+    let shape: NodeShape | undefined = shapeName ? DOT_SHAPES[shapeName] : undefined;
+    if (shapeName && !shape) {
+      warnings.add(`Форма «${attributes.shape}» заменена прямоугольником`);
+      shape = 'rectangle';
+    }
+    if (shape === 'rectangle' && words.has('rounded')) shape = 'rounded';
+    if (shapeName === 'record' || shapeName === 'mrecord') warnings.add('Поля record-узлов объединены в обычный текст');
+
+    const fill = normalizeColor(attributes.fillcolor ?? (words.has('filled') ? attributes.color : undefined));
+    const border = words.has('filled') && !attributes.fillcolor ? undefined : normalizeColor(attributes.color);
+
+    let text = decodeLabel(attributes.label ?? '\\N', dotId, graphName);
+    if (shapeName === 'record' || shapeName === 'mrecord') {
+      text = text.replace(/<[^>]*>/g, '').replace(/[{}]/g, '').split('|').map(s => s.trim()).filter(Boolean).join('\n');
+    }
+
+    const node: NodeType = {
+      id,
+      text,
+      x: 0,
+      y: 0,
+      ...(shape && { shape }),
+      ...(fill && { fill }),
+      ...(border && { border }),
+    };
+    const width = toSize(attributes.width, NODE_WIDTH, MIN_NODE_WIDTH);
+    const height = toSize(attributes.height, NODE_HEIGHT, MIN_NODE_HEIGHT);
+    if (width !== undefined) node.width = width;
+    if (height !== undefined) node.height = height;
+
+    const position = parsePosition(attributes.pos);
+    if (position) {
+      const size = nodeSize(node);
+      node.x = Math.round(position.x - size.width / 2);
+      node.y = Math.round(position.y - size.height / 2);
+      if (position.pinned) node.pinned = true;
+      positioned.add(id);
+    }
+    return node;
+  });
+
+  const registry = createRelationRegistry();
+  const edges: EdgeType[] = parsed.edges.map(({ from, to, attributes }) => {
+    const words = styleWords(attributes.style);
+    const dir = attributes.dir?.toLowerCase();
+    if (dir === 'both') warnings.add('Двунаправленные связи (dir=both) импортированы как направленные');
+    if (words.has('invis')) warnings.add('Невидимые связи импортированы как обычные');
+    const reversed = dir === 'back';
+
+    const arrowName = attributes.arrowhead?.toLowerCase();
+    const directed = parsed.directed ? dir !== 'none' && arrowName !== 'none' : dir === 'forward';
+    let arrowhead = arrowName ? DOT_ARROWHEADS[arrowName] : undefined;
+    if (arrowName && arrowName !== 'none' && !arrowhead) {
+      warnings.add(`Наконечник «${attributes.arrowhead}» заменён треугольником`);
+      arrowhead = 'triangle';
+    }
+
+    const dash: DashStyle | undefined = words.has('dashed') ? 'dashed' : words.has('dotted') ? 'dotted' : undefined;
+    const style: Partial<RelationStyle> = { color: normalizeColor(attributes.color), dash, arrowhead, directed };
+
+    // Встроенные типы узнаются по class, остальные — по оформлению и названию
+    const builtin = attributes.class && isBuiltinRelation(attributes.class) ? attributes.class : undefined;
+    const type = builtin ?? registry.resolve(style, attributes.relation && decodeString(attributes.relation));
+
+    return {
+      id: createId(),
+      from: ids.get(reversed ? to : from)!,
+      to: ids.get(reversed ? from : to)!,
+      type,
+      ...(attributes.label && { label: decodeLabel(attributes.label, '', graphName) }),
+      ...(attributes.comment && { notes: decodeString(attributes.comment) }),
+    };
+  });
+
+  // Встроенные типы попадают в документ всегда, даже если их нет в файле
+  const doc = frameGroups(placeNodes({ nodes, edges, relationTypes: registry.types() }, positioned, warnings), groups);
+  return { doc, name, warnings: warnings.list() };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { applyCommand } from '../commands';
+import { DEFAULT_RELATION_TYPES } from '../relations';
+import type { GraphDocument } from '../types';
+import { applyDsl, parseDsl, serializeDsl } from './dsl';
+
+const graph: GraphDocument = {
+  nodes: [
+    { id: 'a', text: 'Alpha', x: 0, y: 0 },
+    { id: 'b', text: 'Beta\n  с отступом  ', x: 200, y: 0 },
+    { id: 'c', text: '  Gamma', x: 400, y: 0 },
+  ],
+  edges: [
+    { id: 'e1', from: 'a', to: 'b', type: 'depends' },
+    { id: 'e2', from: 'b', to: 'c', type: 'primary' },
+  ],
+  relationTypes: [
+    ...DEFAULT_RELATION_TYPES,
+    { id: 'depends', name: 'Зависит [x] \\ y', color: '#22c55e', dash: 'dashed', arrowhead: 'triangle', directed: true },
+  ],
+};
+
+describe('dsl', () => {
+  it('разбирает собственный текст без ошибок и без изменений графа', () => {
+    const { graph: parsed, errors } = parseDsl(serializeDsl(graph), graph.relationTypes);
+    expect(errors).toEqual([]);
+    expect(applyCommand(graph, applyDsl(graph, parsed))).toEqual(graph);
+  });
+
+  it('сохраняет пробелы в тексте узла после двоеточия', () => {
+    const { graph: parsed } = parseDsl('Alpha:   текст  \n', graph.relationTypes);
+    expect(parsed.nodes.get('Alpha')).toBe('  текст  ');
+  });
+});
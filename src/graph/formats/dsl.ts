@@ -0,0 +1,285 @@
+import { batchCommands } from '../commands';
+import { createId } from '../document';
+import { nodeSize, NODE_HEIGHT, NODE_WIDTH } from '../layout/common';
+import { removeNodes } from '../operations';
+import { ALIAS_RELATION, PRIMARY_RELATION, WIKI_RELATION } from '../relations';
+import { nodeTitle, titleKey } from '../wiki';
+import type { EdgeKind, EdgeType, GraphCommand, GraphDocument, NodeType, RelationType } from '../types';
+
+/**
+ * Текстовое представление графа, по одному утверждению на строку:
+ *
+ *   Идея                       — узел без связей
+ *   Идея -> Развитие           — основная связь, допускаются цепочки A -> B -> C
+ *   Идея ~> Синоним            — псевдоним
+ *   Идея -[Зависит]-> Задача   — связь пользовательского типа по названию
+ *   Идея: Полный текст\nузла   — текст узла, перевод строки записывается как \n
+ *   // комментарий
+ *
+ * Узлы называются по заголовку, повторы получают суффикс « (2)». Имена со
+ * служебными символами берутся в двойные кавычки, «]» в названии типа
+ * записывается как \]. Вики-связи выводятся из текста узлов и в этом
+ * представлении не записываются.
+ */
+
+export type DslError = { line: number; message: string };
+
+export type DslEdge = { from: string; to: string; type: EdgeKind };
+
+export type DslGraph = {
+  // Имя узла → текст, если он задан отдельной строкой; порядок — порядок появления
+  nodes: Map<string, string | undefined>;
+  edges: DslEdge[];
+};
+
+export type DslParseResult = { graph: DslGraph; errors: DslError[] };
+
+const NEEDS_QUOTES = /->|~>|-\[|:|"|^\/\/|^\s|\s$/;
+
+const quoteName = (name: string) =>
+  !name || NEEDS_QUOTES.test(name) ? `"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : name;
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const unescapeText = (text: string) => text.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c));
+
+// Уникальные имена узлов: заголовок, при повторе — с порядковым номером
+export const dslNames = (doc: GraphDocument) => {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of doc.nodes) {
+    const base = nodeTitle(node) || 'Узел';
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base} (${i})`;
+    used.add(name);
+    names.set(node.id, name);
+  }
+  return names;
+};
+
+const arrowFor = (type: EdgeKind, relationById: Map<string, RelationType>) => {
+  if (type === PRIMARY_RELATION) return '->';
+  if (type === ALIAS_RELATION) return '~>';
+  const name = relationById.get(type)?.name || type;
+  return `-[${name.replace(/\\/g, '\\\\').replace(/]/g, '\\]')}]->`;
+};
+
+export const serializeDsl = (doc: GraphDocument) => {
+  const names = dslNames(doc);
+  const relationById = new Map(doc.relationTypes.map(t => [t.id, t]));
+  const name = (id: string) => quoteName(names.get(id) ?? id);
+  const lines: string[] = [];
+  const declared = new Set<string>();
+
+  for (const node of doc.nodes) {
+    if (node.text === names.get(node.id)) continue;
+    lines.push(`${name(node.id)}: ${escapeText(node.text)}`);
+    declared.add(node.id);
+  }
+  if (lines.length) lines.push('');
+
+  const edges = doc.edges.filter(e => e.type !== WIKI_RELATION);
+  for (const edge of edges) {
+    lines.push(`${name(edge.from)} ${arrowFor(edge.type, relationById)} ${name(edge.to)}`);
+    declared.add(edge.from);
+    declared.add(edge.to);
+  }
+
+  const isolated = doc.nodes.filter(n => !declared.has(n.id));
+  if (isolated.length && edges.length) lines.push('');
+  for (const node of isolated) lines.push(name(node.id));
+
+  const text = lines.join('\n').replace(/\n+$/, '');
+  return text ? `${text}\n` : '';
+};
+
+class LineError extends Error {}
+
+// Разбор одной строки: последовательность имён, разделённых стрелками, либо «имя: текст»
+const parseLine = (line: string, resolveType: (name: string) => EdgeKind) => {
+  const names: string[] = [];
+  const types: EdgeKind[] = [];
+  let text: string | undefined;
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (pos < line.length && /\s/.test(line[pos])) pos++;
+  };
+
+  const readName = () => {
+    skipSpaces();
+    if (line[pos] === '"') {
+      let name = '';
+      for (pos++; pos < line.length && line[pos] !== '"'; pos++) {
+        name += line[pos] === '\\' && pos + 1 < line.length ? line[++pos] : line[pos];
+      }
+      if (pos >= line.length) throw new LineError('Незакрытая кавычка');
+      pos++;
+      return name;
+    }
+    const start = pos;
+    while (pos < line.length && !/^(->|~>|-\[|:)/.test(line.slice(pos))) pos++;
+    const name = line.slice(start, pos).trim();
+    if (!name) throw new LineError('Ожидалось имя узла');
+    return name;
+  };
+
+  const readArrow = (): EdgeKind | null => {
+    skipSpaces();
+    const rest = line.slice(pos);
+    if (rest.startsWith('->')) {
+      pos += 2;
+      return PRIMARY_RELATION;
+    }
+    if (rest.startsWith('~>')) {
+      pos += 2;
+      return ALIAS_RELATION;
+    }
+    // В названии типа «]» и «\» экранируются обратной косой чертой
+    const custom = /^-\[((?:\\.|[^\]\\])*)\]->/.exec(rest);
+    if (custom) {
+      pos += custom[0].length;
+      return resolveType(custom[1].replace(/\\(.)/g, '$1').trim());
+    }
+    if (rest.startsWith('-[')) throw new LineError('Ожидалась стрелка вида -[Тип]->');
+    return null;
+  };
+
+  names.push(readName());
+  for (;;) {
+    const type = readArrow();
+    if (type === null) break;
+    types.push(type);
+    skipSpaces();
+    if (pos >= line.length) throw new LineError('После стрелки ожидалось имя узла');
+    names.push(readName());
+  }
+
+  skipSpaces();
+  if (line[pos] === ':') {
+    if (names.length > 1) throw new LineError('Текст можно задать только отдельной строкой для одного узла');
+    // Текст берётся как написан, без одного пробела после двоеточия
+    text = unescapeText(line.slice(pos + 1).replace(/^ /, ''));
+  } else if (pos < line.length) {
+    throw new LineError(`Неожиданный символ «${line[pos]}»`);
+  }
+
+  return { names, types, text };
+};
+
+export const parseDsl = (source: string, relationTypes: readonly RelationType[]): DslParseResult => {
+  const graph: DslGraph = { nodes: new Map(), edges: [] };
+  const errors: DslError[] = [];
+  const textLines = new Map<string, number>();
+
+  const resolveType = (name: string) => {
+    const key = titleKey(name);
+    const type = relationTypes.find(t => t.id === name || titleKey(t.name) === key);
+    if (!type) throw new LineError(`Неизвестный тип связи «${name}»`);
+    if (type.id === WIKI_RELATION) throw new LineError('Вики-связи задаются ссылками [[…]] в тексте узла');
+    return type.id;
+  };
+
+  source.split('\n').forEach((raw, i) => {
+    // Конец строки не обрезается: пробелы в конце — часть текста узла
+    const line = raw.trimStart();
+    if (!line.trim() || line.startsWith('//')) return;
+    try {
+      const { names, types, text } = parseLine(line, resolveType);
+      for (const name of names) if (!graph.nodes.has(name)) graph.nodes.set(name, undefined);
+      types.forEach((type, k) => graph.edges.push({ from: names[k], to: names[k + 1], type }));
+      if (text !== undefined) {
+        const previous = textLines.get(names[0]);
+        if (previous !== undefined) throw new LineError(`Текст узла уже задан в строке ${previous}`);
+        textLines.set(names[0], i + 1);
+        graph.nodes.set(names[0], text);
+      }
+    } catch (error) {
+      if (!(error instanceof LineError)) throw error;
+      errors.push({ line: i + 1, message: error.message });
+    }
+  });
+
+  return { graph, errors };
+};
+
+const NEW_NODE_GAP = 80;
+
+/**
+ * Переводит разобранный текст в команду над документом. Узлы сопоставляются
+ * по имени и сохраняют положение, оформление и идентификатор; если исчез ровно
+ * один узел и появился ровно один новый, это считается переименованием.
+ * Существующие связи сохраняют подпись и маршрут, вики-связи не трогаются.
+ */
+export const applyDsl = (doc: GraphDocument, graph: DslGraph): GraphCommand => {
+  const names = dslNames(doc);
+  const nodeByName = new Map(doc.nodes.map(n => [names.get(n.id)!, n]));
+
+  const added = [...graph.nodes.keys()].filter(name => !nodeByName.has(name));
+  const missing = doc.nodes.filter(n => !graph.nodes.has(names.get(n.id)!));
+  if (added.length === 1 && missing.length === 1) {
+    nodeByName.set(added.pop()!, missing.pop()!);
+  }
+
+  const textChanges: { id: string; before: Partial<NodeType>; after: Partial<NodeType> }[] = [];
+  const idByName = new Map<string, string>();
+  for (const [name, text] of graph.nodes) {
+    const node = nodeByName.get(name);
+    if (!node) continue;
+    idByName.set(name, node.id);
+    const wanted = text ?? name;
+    if (node.text !== wanted) textChanges.push({ id: node.id, before: { text: node.text }, after: { text: wanted } });
+  }
+
+  // Новые узлы ставятся справа от уже размещённого соседа, остальные — рядом под графом
+  const placed = new Map<string, NodeType>(doc.nodes.map(n => [n.id, n]));
+  const stacked = new Map<string, number>();
+  const bottom = doc.nodes.reduce((max, n) => Math.max(max, n.y + nodeSize(n).height), 0);
+  const left = doc.nodes.length ? Math.min(...doc.nodes.map(n => n.x)) : 100;
+  let column = 0;
+  const newNodes: NodeType[] = [];
+  for (const name of added) {
+    const partnerName = graph.edges.find(e => e.to === name && idByName.has(e.from))?.from
+      ?? graph.edges.find(e => e.from === name && idByName.has(e.to))?.to;
+    const partner = partnerName ? placed.get(idByName.get(partnerName)!) : undefined;
+    let x: number;
+    let y: number;
+    if (partner) {
+      const index = stacked.get(partner.id) ?? 0;
+      stacked.set(partner.id, index + 1);
+      x = partner.x + nodeSize(partner).width + NEW_NODE_GAP;
+      y = partner.y + index * (NODE_HEIGHT + 20);
+    } else {
+      x = left + column++ * (NODE_WIDTH + 40);
+      y = bottom + NEW_NODE_GAP;
+    }
+    const node: NodeType = { id: createId(), text: graph.nodes.get(name) ?? name, x, y };
+    newNodes.push(node);
+    placed.set(node.id, node);
+    idByName.set(name, node.id);
+  }
+
+  const removedIds = new Set(missing.map(n => n.id));
+
+  const wanted = new Map<string, DslEdge>();
+  for (const edge of graph.edges) {
+    const from = idByName.get(edge.from)!;
+    const to = idByName.get(edge.to)!;
+    wanted.set(`${from}\n${to}\n${edge.type}`, { from, to, type: edge.type });
+  }
+  const staleEdges: EdgeType[] = [];
+  for (const edge of doc.edges) {
+    if (edge.type === WIKI_RELATION || removedIds.has(edge.from) || removedIds.has(edge.to)) continue;
+    const key = `${edge.from}\n${edge.to}\n${edge.type}`;
+    if (wanted.has(key)) wanted.delete(key);
+    else staleEdges.push(edge);
+  }
+  const newEdges: EdgeType[] = [...wanted.values()].map(e => ({ id: createId(), ...e }));
+
+  return batchCommands([
+    { type: 'remove', nodes: [], edges: staleEdges },
+    removeNodes(doc, removedIds),
+    { type: 'update', nodes: textChanges, edges: [] },
+    { type: 'insert', nodes: newNodes, edges: newEdges },
+  ]);
+};
@@ -0,0 +1,335 @@
+import { createId } from '../document';
+import { MIN_NODE_HEIGHT, MIN_NODE_WIDTH, NODE_HEIGHT, NODE_WIDTH, nodeSize } from '../layout/common';
+import type { ArrowheadStyle, DashStyle, EdgeRouting, EdgeType, GraphDocument, NodeShape, NodeType } from '../types';
+import {
+  EDITOR_NAMESPACE,
+  GROUP_FILLS,
+  createRelationRegistry,
+  createWarnings,
+  customAttributes,
+  frameGroups,
+  normalizeColor,
+  parseSize,
+  placeNodes,
+  readRelationTypes,
+  relationTypeElements,
+  type ImportedGraph,
+  type ImportedGroup,
+  type RelationStyle,
+} from './common';
+import { GraphFileError } from './json';
+import {
+  childElement,
+  childElements,
+  escapeAttribute,
+  escapeXml,
+  localName,
+  parseXml,
+  xmlAttributes,
+  type XmlElement,
+} from './xml';
+
+/**
+ * Обмен с Gephi через GEXF 1.3. Текст узла становится его label, положение —
+ * viz:position (центр узла, ось Y вверх, как в Gephi), заливка и цвет связи —
+ * viz:color, штрих — viz:shape. Остальное хранится в атрибутах узлов и
+ * связей (<attributes>), реестр типов связей — в <meta>, поэтому экспорт
+ * и повторный импорт дают тот же граф, а в Gephi по типу связи (relation)
+ * можно раскрашивать и фильтровать.
+ *
+ * Из чужих файлов берутся подписи, координаты и цвета; узлы с вложенными
+ * узлами становятся узлами-группами вокруг них. Атрибуты, которым в редакторе нет места,
+ * вместе с весом связи сохраняются у узлов и связей и выгружаются обратно.
+ */
+
+export const GEXF_FILE_EXTENSION = '.gexf';
+
+// Собственные атрибуты: класс, идентификатор и тип по спецификации GEXF
+const ATTRIBUTES = [
+  ['node', 'shape', 'string'],
+  ['node', 'border', 'string'],
+  ['node', 'width', 'integer'],
+  ['node', 'height', 'integer'],
+  ['node', 'pinned', 'boolean'],
+  ['edge', 'relation', 'string'],
+  ['edge', 'relationId', 'string'],
+  ['edge', 'arrowhead', 'string'],
+  ['edge', 'notes', 'string'],
+  ['edge', 'routing', 'string'],
+] as const;
+
+// ---------- Экспорт ----------
+
+const SHAPE_TO_VIZ: Record<NodeShape, string> = {
+  rectangle: 'square',
+  rounded: 'square',
+  ellipse: 'disc',
+  diamond: 'diamond',
+  sticky: 'square',
+  group: 'square',
+};
+
+const colorAttributes = (color: string) => {
+  const hex = normalizeColor(color);
+  if (!hex) return '';
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return xmlAttributes({ r, g, b });
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const attvalues = (values: Record<string, string | number | boolean | undefined>) => {
+  const items = Object.entries(values).filter(([, value]) => value !== undefined && value !== '' && value !== false);
+  if (!items.length) return [];
+  return [
+    '<attvalues>',
+    ...items.map(([key, value]) => `  <attvalue${xmlAttributes({ for: key, value: String(value) })}/>`),
+    '</attvalues>',
+  ];
+};
+
+// Вес связи в GEXF — атрибут самого элемента, а не значение из <attvalues>
+const withoutWeight = ({ weight: _weight, ...attributes }: Record<string, string> = {}) => attributes;
+
+export const exportGexf = (doc: GraphDocument, name = '') => {
+  const relationById = new Map(doc.relationTypes.map(t => [t.id, t]));
+  const custom = {
+    node: customAttributes(doc.nodes),
+    edge: customAttributes(doc.edges.map(edge => ({ attributes: withoutWeight(edge.attributes) }))),
+  };
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" xmlns:gte="${EDITOR_NAMESPACE}" version="1.3">`,
+    '  <meta>',
+    `    <description>${escapeXml(name)}</description>`,
+    ...relationTypeElements(doc.relationTypes).map(line => `    ${line}`),
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+  ];
+  for (const domain of ['node', 'edge'] as const) {
+    lines.push(`    <attributes class="${domain}">`);
+    for (const [attributeDomain, id, type] of ATTRIBUTES) {
+      if (attributeDomain === domain) lines.push(`      <attribute${xmlAttributes({ id, title: id, type })}/>`);
+    }
+    for (const { name: id, type } of custom[domain]) lines.push(`      <attribute${xmlAttributes({ id, title: id, type })}/>`);
+    lines.push('    </attributes>');
+  }
+
+  lines.push('    <nodes>');
+  for (const node of doc.nodes) {
+    const { width, height } = nodeSize(node);
+    lines.push(
+      // Подпись пишется и пустой, иначе при импорте её заменил бы идентификатор
+      `      <node${xmlAttributes({ id: node.id })} label="${escapeAttribute(node.text)}">`,
+      ...[
+        ...attvalues({
+          shape: node.shape,
+          border: node.border,
+          width: node.width,
+          height: node.height,
+          pinned: node.pinned,
+          ...node.attributes,
+        }),
+        ...(node.fill ? [`<viz:color${colorAttributes(node.fill)}/>`] : []),
+        `<viz:position${xmlAttributes({ x: round(node.x + width / 2), y: round(-(node.y + height / 2)), z: 0 })}/>`,
+        `<viz:shape value="${SHAPE_TO_VIZ[node.shape ?? 'rounded']}"/>`,
+      ].map(line => `        ${line}`),
+      '      </node>'
+    );
+  }
+  lines.push('    </nodes>', '    <edges>');
+  for (const edge of doc.edges) {
+    const type = relationById.get(edge.type);
+    lines.push(
+      `      <edge${xmlAttributes({
+        id: edge.id,
+        source: edge.from,
+        target: edge.to,
+        type: type && !type.directed ? 'undirected' : 'directed',
+        label: edge.label,
+        weight: edge.attributes?.weight,
+      })}>`,
+      ...[
+        ...attvalues({
+          relation: type?.name,
+          relationId: edge.type,
+          arrowhead: type?.arrowhead,
+          notes: edge.notes,
+          routing: edge.routing,
+          ...withoutWeight(edge.attributes),
+        }),
+        ...(type ? [`<viz:color${colorAttributes(type.color)}/>`, `<viz:shape value="${type.dash}"/>`] : []),
+      ].map(line => `        ${line}`),
+      '      </edge>'
+    );
+  }
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return `${lines.join('\n')}\n`;
+};
+
+// ---------- Импорт ----------
+
+const VIZ_SHAPES: Record<string, NodeShape> = {
+  disc: 'ellipse',
+  square: 'rectangle',
+  diamond: 'diamond',
+};
+
+const VIZ_DASHES: Record<string, DashStyle> = { solid: 'solid', dashed: 'dashed', dotted: 'dotted', double: 'solid' };
+
+const NODE_SHAPES = new Set<string>(['rectangle', 'rounded', 'ellipse', 'diamond', 'sticky', 'group']);
+const ROUTINGS = new Set<string>(['straight', 'bezier', 'orthogonal']);
+const ARROWHEADS = new Set<string>(['triangle', 'open', 'diamond', 'circle']);
+const KNOWN_ATTRIBUTES = new Set<string>(ATTRIBUTES.map(([domain, id]) => `${domain}:${id}`));
+
+const vizColor = (element: XmlElement) => {
+  const color = childElement(element, 'color');
+  if (!color) return undefined;
+  if (color.attributes.hex) return normalizeColor(color.attributes.hex);
+  const channels = ['r', 'g', 'b'].map(c => Number(color.attributes[c]));
+  if (!channels.every(c => Number.isInteger(c) && c >= 0 && c <= 255)) return undefined;
+  return `#${channels.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const importGexf = (source: string): ImportedGraph => {
+  const warnings = createWarnings();
+  const root = parseXml(source, 'GEXF');
+  if (localName(root) !== 'gexf') throw new GraphFileError('Файл не является документом GEXF');
+  const graph = childElement(root, 'graph');
+  if (!graph) throw new GraphFileError('В файле GEXF нет графа');
+  if (graph.attributes.mode === 'dynamic') warnings.add('Динамический граф импортирован без учёта времени');
+  const defaultEdgeType = graph.attributes.defaultedgetype ?? 'directed';
+
+  // Атрибуты объявляются по идентификатору; в файлах Gephi это числа, а смысл — в title
+  const titles = new Map<string, string>();
+  const defaults = new Map<string, Map<string, string>>([['node', new Map()], ['edge', new Map()]]);
+  for (const declaration of childElements(graph, 'attributes')) {
+    const domain = declaration.attributes.class;
+    for (const attribute of childElements(declaration, 'attribute')) {
+      const title = attribute.attributes.title ?? attribute.attributes.id;
+      titles.set(`${domain}:${attribute.attributes.id}`, title);
+      const fallback = childElement(attribute, 'default')?.text;
+      if (fallback !== undefined) defaults.get(domain)?.set(title, fallback);
+    }
+  }
+  const ownShapes = titles.get('node:shape') === 'shape';
+
+  const readValues = (element: XmlElement, domain: 'node' | 'edge') => {
+    const values = new Map(defaults.get(domain));
+    for (const container of childElements(element, 'attvalues')) {
+      for (const item of childElements(container, 'attvalue')) {
+        const id = item.attributes.for ?? item.attributes.id;
+        const title = titles.get(`${domain}:${id}`) ?? id;
+        if (item.attributes.start || item.attributes.end) warnings.add('Динамический граф импортирован без учёта времени');
+        values.set(title, item.attributes.value);
+      }
+    }
+    const custom = [...values].filter(([title]) => !KNOWN_ATTRIBUTES.has(`${domain}:${title}`));
+    return { values, attributes: custom.length ? Object.fromEntries(custom) : undefined };
+  };
+
+  const nodes: NodeType[] = [];
+  const ids = new Map<string, string>();
+  const positioned = new Set<string>();
+
+  const groups: ImportedGroup[] = [];
+  const edgeElements: XmlElement[] = [];
+  const readNodes = (container: XmlElement, group?: ImportedGroup) => {
+    for (const list of childElements(container, 'nodes')) {
+      for (const element of childElements(list, 'node')) {
+        const { values, attributes } = readValues(element, 'node');
+        let shape = NODE_SHAPES.has(values.get('shape') ?? '') ? (values.get('shape') as NodeShape) : undefined;
+        const vizShape = childElement(element, 'shape')?.attributes.value;
+        // Файл редактора объявляет атрибут shape, и его отсутствие означает форму по умолчанию
+        if (!shape && vizShape && !ownShapes) {
+          shape = VIZ_SHAPES[vizShape];
+          if (!shape) {
+            warnings.add(`Форма «${vizShape}» заменена прямоугольником`);
+            shape = 'rectangle';
+          }
+        }
+        const fill = vizColor(element);
+        const border = normalizeColor(values.get('border'));
+        const node: NodeType = {
+          id: createId(),
+          text: element.attributes.label ?? element.attributes.id,
+          x: 0,
+          y: 0,
+          ...(shape && { shape }),
+          ...(fill && { fill }),
+          ...(border && { border }),
+          ...(values.get('pinned') === 'true' && { pinned: true }),
+          ...(attributes && { attributes }),
+        };
+        const width = parseSize(values.get('width'), NODE_WIDTH, MIN_NODE_WIDTH);
+        const height = parseSize(values.get('height'), NODE_HEIGHT, MIN_NODE_HEIGHT);
+        if (width !== undefined) node.width = width;
+        if (height !== undefined) node.height = height;
+
+        const position = childElement(element, 'position');
+        if (position) {
+          const size = nodeSize(node);
+          node.x = Math.round((parseFloat(position.attributes.x) || 0) - size.width / 2);
+          node.y = Math.round(-(parseFloat(position.attributes.y) || 0) - size.height / 2);
+          positioned.add(node.id);
+        }
+        ids.set(element.attributes.id, node.id);
+        group?.members.push(node.id);
+
+        // Узел с вложенными узлами иерархического GEXF становится рамкой вокруг них
+        if (childElements(element, 'nodes').length) {
+          const nested: ImportedGroup = {
+            node: { ...node, shape: 'group', fill: fill ?? GROUP_FILLS[groups.length % GROUP_FILLS.length] },
+            members: [],
+          };
+          positioned.delete(node.id);
+          groups.push(nested);
+          readNodes(element, nested);
+        } else {
+          nodes.push(node);
+        }
+        for (const list of childElements(element, 'edges')) edgeElements.push(...childElements(list, 'edge'));
+      }
+    }
+  };
+  readNodes(graph);
+  for (const list of childElements(graph, 'edges')) edgeElements.push(...childElements(list, 'edge'));
+
+  const registry = createRelationRegistry();
+  readRelationTypes(childElement(root, 'meta'), registry);
+  const edges: EdgeType[] = [];
+  for (const element of edgeElements) {
+    const { source: from, target: to, label, weight } = element.attributes;
+    if (!ids.has(from) || !ids.has(to)) {
+      warnings.add('Связи с несуществующими узлами пропущены');
+      continue;
+    }
+    const { values, attributes: custom } = readValues(element, 'edge');
+    const attributes = weight !== undefined ? { ...custom, weight } : custom;
+    const kind = element.attributes.type ?? defaultEdgeType;
+    if (kind === 'mutual') warnings.add('Взаимные связи импортированы как направленные');
+    const arrowhead = values.get('arrowhead');
+    const style: Partial<RelationStyle> = {
+      color: vizColor(element),
+      dash: VIZ_DASHES[childElement(element, 'shape')?.attributes.value ?? ''],
+      arrowhead: arrowhead && ARROWHEADS.has(arrowhead) ? (arrowhead as ArrowheadStyle) : undefined,
+      directed: kind !== 'undirected',
+    };
+    const routing = values.get('routing');
+    edges.push({
+      id: createId(),
+      from: ids.get(from)!,
+      to: ids.get(to)!,
+      type: registry.resolve(style, values.get('relation'), values.get('relationId')),
+      ...(label && { label }),
+      ...(values.get('notes') && { notes: values.get('notes') }),
+      ...(routing && ROUTINGS.has(routing) && routing !== 'straight' && { routing: routing as EdgeRouting }),
+      ...(attributes && { attributes }),
+    });
+  }
+
+  const meta = childElement(root, 'meta');
+  const description = meta && childElement(meta, 'description')?.text.trim();
+  const doc = frameGroups(placeNodes({ nodes, edges, relationTypes: registry.types() }, positioned, warnings), groups);
+  return { doc, name: description || undefined, warnings: warnings.list() };
+};
@@ -0,0 +1,405 @@
+import { createId } from '../document';
+import { MIN_NODE_HEIGHT, MIN_NODE_WIDTH, NODE_HEIGHT, NODE_WIDTH, nodeSize } from '../layout/common';
+import type { ArrowheadStyle, DashStyle, EdgeRouting, EdgeType, GraphDocument, NodeShape, NodeType } from '../types';
+import {
+  EDITOR_NAMESPACE,
+  GROUP_FILLS,
+  createRelationRegistry,
+  createWarnings,
+  customAttributes,
+  frameGroups,
+  normalizeColor,
+  parseSize,
+  placeNodes,
+  readRelationTypes,
+  relationTypeElements,
+  type ImportedGraph,
+  type ImportedGroup,
+  type RelationStyle,
+} from './common';
+import { GraphFileError } from './json';
+import { childElement, childElements, escapeXml, findElement, localName, parseXml, xmlAttributes, type XmlElement } from './xml';
+
+/**
+ * Обмен с yEd и другими программами через GraphML. Положение, размер, цвета
+ * и подписи пишутся в графику yFiles (y:ShapeNode, y:PolyLineEdge), которую
+ * показывает yEd. Всё, чего в ней нет, — форма стикера, закрепление, тип
+ * связи с названием и идентификатором, заметки, маршрут — хранится в
+ * атрибутах <key>, реестр типов связей — в данных графа, так что экспорт
+ * и повторный импорт дают тот же граф.
+ *
+ * Из чужих файлов берутся подписи, координаты, цвета и стрелки; вложенные
+ * графы (группы yEd) становятся узлами-группами вокруг своих узлов. Атрибуты, которым
+ * в редакторе нет места, сохраняются у узлов и связей и выгружаются обратно.
+ */
+
+export const GRAPHML_FILE_EXTENSION = '.graphml';
+
+// Собственные атрибуты: домен, имя и тип по спецификации GraphML
+const KEYS = [
+  ['node', 'text', 'string'],
+  ['node', 'shape', 'string'],
+  ['node', 'pinned', 'boolean'],
+  ['edge', 'relation', 'string'],
+  ['edge', 'relationId', 'string'],
+  ['edge', 'arrowhead', 'string'],
+  ['edge', 'label', 'string'],
+  ['edge', 'notes', 'string'],
+  ['edge', 'routing', 'string'],
+] as const;
+
+// ---------- Экспорт ----------
+
+const SHAPE_TO_YED: Record<NodeShape, string> = {
+  rectangle: 'rectangle',
+  rounded: 'roundrectangle',
+  ellipse: 'ellipse',
+  diamond: 'diamond',
+  sticky: 'rectangle',
+  group: 'rectangle',
+};
+
+const ARROWHEAD_TO_YED: Record<ArrowheadStyle, string> = {
+  triangle: 'standard',
+  open: 'plain',
+  diamond: 'diamond',
+  circle: 'circle',
+};
+
+const DASH_TO_YED: Record<DashStyle, string> = { solid: 'line', dashed: 'dashed', dotted: 'dotted' };
+
+const data = (key: string, value: string | boolean | undefined) =>
+  value === undefined || value === '' || value === false ? [] : [`<data key="${key}">${escapeXml(String(value))}</data>`];
+
+export const exportGraphml = (doc: GraphDocument, name = '') => {
+  const relationById = new Map(doc.relationTypes.map(t => [t.id, t]));
+  // Ключи пользовательских атрибутов нумеруются, чтобы имя не столкнулось со своими ключами
+  const custom = [
+    ...customAttributes(doc.nodes).map((attribute, i) => ({ ...attribute, domain: 'node', key: `n${i}` })),
+    ...customAttributes(doc.edges).map((attribute, i) => ({ ...attribute, domain: 'edge', key: `e${i}` })),
+  ];
+  const customData = (domain: string, attributes: Record<string, string> = {}) =>
+    custom.flatMap(({ name, domain: d, key }) => (d === domain && name in attributes ? data(key, attributes[name]) : []));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:y="http://www.yworks.com/xml/graphml"' +
+      ` xmlns:gte="${EDITOR_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"` +
+      ' xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://www.yworks.com/xml/schema/graphml/1.1/ygraphml.xsd">',
+    ...KEYS.map(([domain, key, type]) => `  <key${xmlAttributes({ id: key, for: domain, 'attr.name': key, 'attr.type': type })}/>`),
+    ...custom.map(({ name, domain, key, type }) => `  <key${xmlAttributes({ id: key, for: domain, 'attr.name': name, 'attr.type': type })}/>`),
+    '  <key id="relationTypes" for="graph"/>',
+    '  <key id="ng" for="node" yfiles.type="nodegraphics"/>',
+    '  <key id="eg" for="edge" yfiles.type="edgegraphics"/>',
+    '  <graph id="G" edgedefault="directed">',
+  ];
+  if (name) lines.push(`    <desc>${escapeXml(name)}</desc>`);
+  lines.push('    <data key="relationTypes">', ...relationTypeElements(doc.relationTypes).map(line => `      ${line}`), '    </data>');
+
+  for (const node of doc.nodes) {
+    const { width, height } = nodeSize(node);
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">`,
+      ...[
+        // Текст пишется и пустым, иначе при импорте его заменил бы идентификатор
+        `<data key="text">${escapeXml(node.text)}</data>`,
+        ...data('shape', node.shape),
+        ...data('pinned', node.pinned),
+        ...customData('node', node.attributes),
+        '<data key="ng">',
+        '  <y:ShapeNode>',
+        `    <y:Geometry${xmlAttributes({ x: node.x, y: node.y, width, height })}/>`,
+        ...(node.fill ? [`    <y:Fill${xmlAttributes({ color: node.fill, transparent: 'false' })}/>`] : []),
+        ...(node.border ? [`    <y:BorderStyle${xmlAttributes({ color: node.border, type: 'line', width: '1.0' })}/>`] : []),
+        `    <y:NodeLabel>${escapeXml(node.text)}</y:NodeLabel>`,
+        `    <y:Shape type="${SHAPE_TO_YED[node.shape ?? 'rounded']}"/>`,
+        '  </y:ShapeNode>',
+        '</data>',
+      ].map(line => `      ${line}`),
+      '    </node>'
+    );
+  }
+
+  for (const edge of doc.edges) {
+    const type = relationById.get(edge.type);
+    lines.push(
+      `    <edge${xmlAttributes({ id: edge.id, source: edge.from, target: edge.to, directed: type ? type.directed : undefined })}>`,
+      ...[
+        ...data('relation', type?.name),
+        ...data('relationId', edge.type),
+        ...data('arrowhead', type?.arrowhead),
+        ...data('label', edge.label),
+        ...data('notes', edge.notes),
+        ...data('routing', edge.routing),
+        ...customData('edge', edge.attributes),
+        '<data key="eg">',
+        '  <y:PolyLineEdge>',
+        ...(type
+          ? [
+              `    <y:LineStyle${xmlAttributes({ color: type.color, type: DASH_TO_YED[type.dash], width: '1.0' })}/>`,
+              `    <y:Arrows source="none" target="${type.directed ? ARROWHEAD_TO_YED[type.arrowhead] : 'none'}"/>`,
+            ]
+          : []),
+        ...(edge.label ? [`    <y:EdgeLabel>${escapeXml(edge.label)}</y:EdgeLabel>`] : []),
+        ...(edge.routing === 'bezier' ? ['    <y:BendStyle smoothed="true"/>'] : []),
+        '  </y:PolyLineEdge>',
+        '</data>',
+      ].map(line => `      ${line}`),
+      '    </edge>'
+    );
+  }
+
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+};
+
+// ---------- Импорт ----------
+
+type KeyInfo = { name: string; domain: string; graphics: boolean; fallback?: string };
+
+const YED_SHAPES: Record<string, NodeShape> = {
+  rectangle: 'rectangle',
+  rectangle3d: 'rectangle',
+  roundrectangle: 'rounded',
+  ellipse: 'ellipse',
+  circle: 'ellipse',
+  diamond: 'diamond',
+};
+
+const YED_ARROWHEADS: Record<string, ArrowheadStyle> = {
+  standard: 'triangle',
+  delta: 'triangle',
+  white_delta: 'triangle',
+  short: 'triangle',
+  plain: 'open',
+  concave: 'open',
+  convex: 'open',
+  diamond: 'diamond',
+  white_diamond: 'diamond',
+  transparent_circle: 'circle',
+  circle: 'circle',
+};
+
+const YED_DASHES: Record<string, DashStyle> = {
+  line: 'solid',
+  dashed: 'dashed',
+  dashed_dotted: 'dashed',
+  dotted: 'dotted',
+};
+
+const NODE_SHAPES = new Set<string>(['rectangle', 'rounded', 'ellipse', 'diamond', 'sticky', 'group']);
+const ROUTINGS = new Set<string>(['straight', 'bezier', 'orthogonal']);
+const ARROWHEADS = new Set<string>(['triangle', 'open', 'diamond', 'circle']);
+
+// Атрибуты, которые понимает импорт, с доменом; остальные сохраняются у узлов и связей как есть
+const KNOWN_ATTRIBUTES = new Set([
+  ...KEYS.map(([domain, key]) => `${domain}:${key}`),
+  ...['label', 'name', 'x', 'y', 'r', 'g', 'b', 'color', 'size', 'width', 'height'].map(name => `node:${name}`),
+]);
+
+const labelText = (element?: XmlElement) => element?.text.trim() || undefined;
+
+export const importGraphml = (source: string): ImportedGraph => {
+  const warnings = createWarnings();
+  const root = parseXml(source, 'GraphML');
+  if (localName(root) !== 'graphml') throw new GraphFileError('Файл не является документом GraphML');
+  const graph = childElement(root, 'graph');
+  if (!graph) throw new GraphFileError('В файле GraphML нет графа');
+  const directedByDefault = graph.attributes.edgedefault !== 'undirected';
+
+  const keys = new Map<string, KeyInfo>();
+  for (const key of childElements(root, 'key')) {
+    keys.set(key.attributes.id, {
+      name: key.attributes['attr.name'] ?? key.attributes.id,
+      domain: key.attributes.for ?? 'all',
+      graphics: Boolean(key.attributes['yfiles.type']),
+      fallback: childElement(key, 'default')?.text,
+    });
+  }
+  const ownShapes = [...keys.values()].some(key => key.domain === 'node' && key.name === 'shape');
+
+  // Значения атрибутов элемента по имени; графика yFiles — отдельно
+  const readData = (element: XmlElement, domain: string) => {
+    const values = new Map<string, string>();
+    for (const [, key] of keys) {
+      if ((key.domain === domain || key.domain === 'all') && key.fallback !== undefined && !key.graphics) {
+        values.set(key.name, key.fallback);
+      }
+    }
+    let graphics: XmlElement | undefined;
+    for (const item of childElements(element, 'data')) {
+      const key = keys.get(item.attributes.key);
+      if (key?.graphics) {
+        graphics = item;
+        continue;
+      }
+      const name = key?.name ?? item.attributes.key;
+      if (!item.text.trim() && !values.has(name) && name !== 'text') continue;
+      values.set(name, item.text);
+    }
+    const custom = [...values].filter(([name]) => !KNOWN_ATTRIBUTES.has(`${domain}:${name}`));
+    const attributes = custom.length ? Object.fromEntries(custom) : undefined;
+    return { values, graphics, attributes };
+  };
+
+  const nodes: NodeType[] = [];
+  const ids = new Map<string, string>();
+  const positioned = new Set<string>();
+  const groups: ImportedGroup[] = [];
+
+  const readNodes = (container: XmlElement, group?: ImportedGroup) => {
+    for (const element of childElements(container, 'node')) {
+      const nested = childElement(element, 'graph');
+      if (nested) {
+        // Узел-группа yEd: рамка вокруг содержимого вложенного графа
+        const { values, graphics } = readData(element, 'node');
+        const yedFill = graphics && findElement(graphics, 'Fill');
+        const node: NodeType = {
+          id: createId(),
+          text: values.get('text') ?? values.get('label') ?? labelText(graphics && findElement(graphics, 'NodeLabel')) ?? '',
+          x: 0,
+          y: 0,
+          shape: 'group',
+          fill: (yedFill && normalizeColor(yedFill.attributes.color)) ?? GROUP_FILLS[groups.length % GROUP_FILLS.length],
+        };
+        const nestedGroup: ImportedGroup = { node, members: [] };
+        groups.push(nestedGroup);
+        group?.members.push(node.id);
+        ids.set(element.attributes.id, node.id);
+        readNodes(nested, nestedGroup);
+        continue;
+      }
+      if (childElements(element, 'port').length) warnings.add('Порты узлов не поддерживаются и пропущены');
+      const { values, graphics, attributes } = readData(element, 'node');
+      const geometry = graphics && findElement(graphics, 'Geometry');
+      const yedShape = graphics && findElement(graphics, 'Shape')?.attributes.type;
+      const yedFill = graphics && findElement(graphics, 'Fill');
+      const yedBorder = graphics && findElement(graphics, 'BorderStyle');
+
+      const text = values.get('text') ?? values.get('label') ?? values.get('name')
+        ?? labelText(graphics && findElement(graphics, 'NodeLabel')) ?? element.attributes.id;
+
+      let shape: NodeShape | undefined = NODE_SHAPES.has(values.get('shape') ?? '') ? (values.get('shape') as NodeShape) : undefined;
+      // Файл редактора объявляет ключ shape, и его отсутствие означает форму по умолчанию
+      if (!shape && yedShape && !ownShapes) {
+        shape = YED_SHAPES[yedShape.toLowerCase()];
+        if (!shape) {
+          warnings.add(`Форма «${yedShape}» заменена прямоугольником`);
+          shape = 'rectangle';
+        }
+      }
+
+      const rgb = ['r', 'g', 'b'].map(c => values.get(c));
+      const fill = yedFill && yedFill.attributes.hasColor !== 'false' && yedFill.attributes.transparent !== 'true'
+        ? normalizeColor(yedFill.attributes.color)
+        : rgb.every(Boolean)
+          ? normalizeColor(`#${rgb.map(c => Number(c).toString(16).padStart(2, '0')).join('')}`)
+          : normalizeColor(values.get('color'));
+      const border = yedBorder && yedBorder.attributes.type !== 'none' && yedBorder.attributes.hasColor !== 'false'
+        ? normalizeColor(yedBorder.attributes.color)
+        : undefined;
+
+      const node: NodeType = {
+        id: createId(),
+        text,
+        x: 0,
+        y: 0,
+        ...(shape && { shape }),
+        ...(fill && { fill }),
+        ...(border && { border }),
+        ...(values.get('pinned') === 'true' && { pinned: true }),
+        ...(attributes && { attributes }),
+      };
+      const width = parseSize(geometry?.attributes.width ?? values.get('width'), NODE_WIDTH, MIN_NODE_WIDTH);
+      const height = parseSize(geometry?.attributes.height ?? values.get('height'), NODE_HEIGHT, MIN_NODE_HEIGHT);
+      if (width !== undefined) node.width = width;
+      if (height !== undefined) node.height = height;
+
+      if (geometry) {
+        // Geometry yEd — левый верхний угол, как и в редакторе
+        node.x = Math.round(parseFloat(geometry.attributes.x) || 0);
+        node.y = Math.round(parseFloat(geometry.attributes.y) || 0);
+        positioned.add(node.id);
+      } else if (values.has('x') && values.has('y')) {
+        // Координаты Gephi — центр узла, ось Y направлена вверх
+        const size = nodeSize(node);
+        node.x = Math.round(parseFloat(values.get('x')!) - size.width / 2);
+        node.y = Math.round(-parseFloat(values.get('y')!) - size.height / 2);
+        positioned.add(node.id);
+      }
+      ids.set(element.attributes.id, node.id);
+      group?.members.push(node.id);
+      nodes.push(node);
+    }
+  };
+  readNodes(graph);
+
+  const edgeElements: XmlElement[] = [];
+  const collectEdges = (container: XmlElement) => {
+    edgeElements.push(...childElements(container, 'edge'));
+    if (childElements(container, 'hyperedge').length) warnings.add('Гиперсвязи не поддерживаются и пропущены');
+    for (const node of childElements(container, 'node')) {
+      const nested = childElement(node, 'graph');
+      if (nested) collectEdges(nested);
+    }
+  };
+  collectEdges(graph);
+
+  const registry = createRelationRegistry();
+  const relationTypes = childElements(graph, 'data').find(item => keys.get(item.attributes.key)?.name === 'relationTypes');
+  readRelationTypes(relationTypes, registry);
+  const edges: EdgeType[] = [];
+  for (const element of edgeElements) {
+    const { source: from, target: to, directed: directedAttribute, sourceport, targetport } = element.attributes;
+    if (sourceport || targetport) warnings.add('Порты узлов не поддерживаются и пропущены');
+    if (!ids.has(from) || !ids.has(to)) {
+      warnings.add('Связи с несуществующими узлами пропущены');
+      continue;
+    }
+    const { values, graphics, attributes } = readData(element, 'edge');
+    const lineStyle = graphics && findElement(graphics, 'LineStyle');
+    const arrows = graphics && findElement(graphics, 'Arrows');
+    const sourceArrow = arrows?.attributes.source ?? 'none';
+    const targetArrow = arrows?.attributes.target ?? 'none';
+    // Стрелка только у начала разворачивает связь
+    const reversed = sourceArrow !== 'none' && targetArrow === 'none';
+    if (sourceArrow !== 'none' && targetArrow !== 'none') warnings.add('Двусторонние связи импортированы как направленные');
+
+    const directed = arrows
+      ? sourceArrow !== 'none' || targetArrow !== 'none'
+      : directedAttribute
+        ? directedAttribute === 'true'
+        : directedByDefault;
+    const headName = (reversed ? sourceArrow : targetArrow).toLowerCase();
+    let arrowhead: ArrowheadStyle | undefined = ARROWHEADS.has(values.get('arrowhead') ?? '')
+      ? (values.get('arrowhead') as ArrowheadStyle)
+      : undefined;
+    if (!arrowhead && headName !== 'none') {
+      arrowhead = YED_ARROWHEADS[headName];
+      if (!arrowhead) {
+        warnings.add(`Наконечник «${headName}» заменён треугольником`);
+        arrowhead = 'triangle';
+      }
+    }
+    const style: Partial<RelationStyle> = {
+      color: normalizeColor(lineStyle?.attributes.color),
+      dash: lineStyle ? YED_DASHES[lineStyle.attributes.type] ?? 'solid' : undefined,
+      arrowhead,
+      directed,
+    };
+    const routing = values.get('routing');
+    const label = values.get('label') ?? labelText(graphics && findElement(graphics, 'EdgeLabel'));
+    edges.push({
+      id: createId(),
+      from: ids.get(reversed ? to : from)!,
+      to: ids.get(reversed ? from : to)!,
+      type: registry.resolve(style, values.get('relation'), values.get('relationId')),
+      ...(label && { label }),
+      ...(values.get('notes') && { notes: values.get('notes') }),
+      ...(routing && ROUTINGS.has(routing) && routing !== 'straight' && { routing: routing as EdgeRouting }),
+      ...(attributes && { attributes }),
+    });
+  }
+
+  const doc = frameGroups(placeNodes({ nodes, edges, relationTypes: registry.types() }, positioned, warnings), groups);
+  return { doc, name: labelText(childElement(graph, 'desc')), warnings: warnings.list() };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { nodeSize } from '../layout';
+import type { ImportedGraph } from './common';
+import { importDot } from './dot';
+import { importGexf } from './gexf';
+import { importGraphml } from './graphml';
+import { importMermaid } from './mermaid';
+
+const dot = `digraph {
+  subgraph cluster_outer { label="Внешняя"; a -> b; subgraph cluster_inner { label="Внутренняя"; c } }
+  d; b -> c; c -> d
+}`;
+
+const mermaid = `flowchart TD
+  subgraph outer [Внешняя]
+    a --> b
+    subgraph inner [Внутренняя]
+      c
+    end
+  end
+  d
+  b --> c
+  c --> d
+`;
+
+const graphml = `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="label" for="node" attr.name="label" attr.type="string"/>
+  <graph edgedefault="directed">
+    <node id="outer"><data key="label">Внешняя</data>
+      <graph edgedefault="directed">
+        <node id="a"><data key="label">a</data></node>
+        <node id="b"><data key="label">b</data></node>
+        <node id="inner"><data key="label">Внутренняя</data>
+          <graph edgedefault="directed"><node id="c"><data key="label">c</data></node></graph>
+        </node>
+      </graph>
+    </node>
+    <node id="d"><data key="label">d</data></node>
+    <edge source="a" target="b"/>
+    <edge source="b" target="c"/>
+    <edge source="c" target="d"/>
+  </graph>
+</graphml>`;
+
+const gexf = `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" version="1.3">
+  <graph defaultedgetype="directed">
+    <nodes>
+      <node id="outer" label="Внешняя">
+        <nodes>
+          <node id="a" label="a"/>
+          <node id="b" label="b"/>
+          <node id="inner" label="Внутренняя"><nodes><node id="c" label="c"/></nodes></node>
+        </nodes>
+      </node>
+      <node id="d" label="d"/>
+    </nodes>
+    <edges>
+      <edge source="a" target="b"/>
+      <edge source="b" target="c"/>
+      <edge source="c" target="d"/>
+    </edges>
+  </graph>
+</gexf>`;
+
+// Рамка охватывает узел целиком
+const contains = (doc: ImportedGraph['doc'], group: string, member: string) => {
+  const outer = doc.nodes.find(n => n.text === group)!;
+  const inner = doc.nodes.find(n => n.text === member)!;
+  const a = nodeSize(outer);
+  const b = nodeSize(inner);
+  return outer.x <= inner.x && outer.y <= inner.y &&
+    outer.x + a.width >= inner.x + b.width && outer.y + a.height >= inner.y + b.height;
+};
+
+describe.each([
+  { format: 'DOT', importGraph: () => importDot(dot) },
+  { format: 'Mermaid', importGraph: () => importMermaid(mermaid) },
+  { format: 'GraphML', importGraph: () => importGraphml(graphml) },
+  { format: 'GEXF', importGraph: () => importGexf(gexf) },
+])('$format', ({ importGraph }) => {
+  it('импортирует группы узлами-группами вокруг своих узлов', () => {
+    const { doc, warnings } = importGraph();
+    expect(warnings).toEqual([]);
+    expect(doc.nodes.map(n => [n.text, n.shape])).toEqual([
+      ['Внешняя', 'group'],
+      ['Внутренняя', 'group'],
+      ...['a', 'b', 'c', 'd'].map(text => [text, undefined]),
+    ]);
+    expect(doc.edges).toHaveLength(3);
+    for (const member of ['a', 'b', 'c', 'Внутренняя']) expect(contains(doc, 'Внешняя', member)).toBe(true);
+    expect(contains(doc, 'Внутренняя', 'c')).toBe(true);
+    expect(contains(doc, 'Внешняя', 'd')).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RELATION_TYPES } from '../relations';
+import type { GraphDocument } from '../types';
+import { exportGexf, importGexf } from './gexf';
+import { exportGraphml, importGraphml } from './graphml';
+
+const graph: GraphDocument = {
+  nodes: [
+    { id: 'a', text: 'Первый\nвторая строка <b>&</b> "кавычки"', x: 0, y: 0 },
+    { id: 'b', text: '', x: 300, y: -120, shape: 'ellipse', fill: '#ff8800', border: '#112233' },
+    {
+      id: 'c',
+      text: 'Стикер',
+      x: -40,
+      y: 260,
+      shape: 'sticky',
+      width: 220,
+      height: 140,
+      pinned: true,
+      attributes: { weight: '2.5', community: 'ядро', notes: 'атрибут', routing: 'north' },
+    },
+    { id: 'd', text: 'Группа', x: 500, y: 400, shape: 'group', attributes: { community: 'периферия' } },
+  ],
+  edges: [
+    { id: 'e1', from: 'a', to: 'b', type: 'primary', label: 'подпись', notes: 'заметка' },
+    { id: 'e2', from: 'b', to: 'c', type: 'depends', routing: 'bezier', attributes: { weight: '3', since: '2024', width: '4' } },
+    { id: 'e3', from: 'c', to: 'a', type: 'related', routing: 'orthogonal' },
+    { id: 'e4', from: 'd', to: 'a', type: 'alias' },
+  ],
+  relationTypes: [
+    { ...DEFAULT_RELATION_TYPES[0], name: 'Главная', color: '#ff0000', dash: 'dotted' },
+    ...DEFAULT_RELATION_TYPES.slice(1),
+    { id: 'depends', name: 'Зависит', color: '#22c55e', dash: 'dashed', arrowhead: 'diamond', directed: true },
+    { id: 'related', name: 'Связано', color: '#0000ff', dash: 'solid', arrowhead: 'open', directed: false },
+    { id: 'unused', name: 'Без связей', color: '#a855f7', dash: 'dotted', arrowhead: 'circle', directed: true },
+  ],
+};
+
+// Идентификаторы узлов и связей при импорте создаются заново, поэтому связи сравниваются по номерам узлов
+const comparable = (doc: GraphDocument) => ({
+  nodes: doc.nodes.map(({ id: _id, ...node }) => node),
+  edges: doc.edges.map(({ id: _id, from, to, ...edge }) => ({
+    ...edge,
+    from: doc.nodes.findIndex(n => n.id === from),
+    to: doc.nodes.findIndex(n => n.id === to),
+  })),
+  relationTypes: doc.relationTypes,
+});
+
+describe.each([
+  { format: 'GraphML', exportGraph: exportGraphml, importGraph: importGraphml },
+  { format: 'GEXF', exportGraph: exportGexf, importGraph: importGexf },
+])('$format', ({ exportGraph, importGraph }) => {
+  it('восстанавливает граф после экспорта и импорта', () => {
+    const { doc, name, warnings } = importGraph(exportGraph(graph, 'Проект'));
+    expect(warnings).toEqual([]);
+    expect(name).toBe('Проект');
+    expect(comparable(doc)).toEqual(comparable(graph));
+  });
+
+  it('сохраняет пустой текст узла', () => {
+    const { doc } = importGraph(exportGraph(graph, ''));
+    expect(doc.nodes[1].text).toBe('');
+  });
+
+  it('переносит изменённый встроенный тип и типы без связей', () => {
+    const { doc } = importGraph(exportGraph(graph, ''));
+    expect(doc.relationTypes.find(t => t.id === 'primary')).toMatchObject({ name: 'Главная', color: '#ff0000', dash: 'dotted' });
+    expect(doc.relationTypes.find(t => t.id === 'unused')).toEqual(graph.relationTypes.find(t => t.id === 'unused'));
+  });
+
+  it('сохраняет пользовательские атрибуты узлов и связей', () => {
+    const { doc } = importGraph(exportGraph(graph, ''));
+    expect(doc.nodes[2].attributes).toEqual({ weight: '2.5', community: 'ядро', notes: 'атрибут', routing: 'north' });
+    expect(doc.edges[1].attributes).toEqual({ weight: '3', since: '2024', width: '4' });
+    expect(doc.edges[0].attributes).toBeUndefined();
+  });
+});
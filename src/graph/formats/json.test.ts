@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RELATION_TYPES } from '../relations';
+import type { GraphDocument } from '../types';
+import { parseGraphFile, serializeEdge, serializeGraphFile, serializeNode } from './json';
+
+const doc: GraphDocument = {
+  nodes: [
+    { id: 'a', text: 'Первый', x: 0, y: 0, attributes: { weight: '2.5', community: 'ядро' } },
+    { id: 'b', text: '', x: 300, y: -120, shape: 'ellipse', fill: '#ff8800', width: 200, pinned: true },
+  ],
+  edges: [
+    { id: 'e1', from: 'a', to: 'b', type: 'primary', label: 'подпись', attributes: { weight: '3' } },
+    { id: 'e2', from: 'b', to: 'a', type: 'alias', routing: 'bezier' },
+  ],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+describe('файл графа', () => {
+  it('восстанавливает граф после сохранения и открытия', () => {
+    const viewport = { pan: { x: 10, y: -20 }, zoom: 1.5 };
+    const contents = parseGraphFile(serializeGraphFile({ doc, viewport, metadata: { name: 'Проект' } }));
+    expect(contents.doc).toEqual(doc);
+    expect(contents.viewport).toEqual(viewport);
+    expect(contents.metadata.name).toBe('Проект');
+  });
+
+  it('не пишет пустые атрибуты', () => {
+    expect(serializeNode({ id: 'a', text: 'A', x: 0, y: 0, attributes: {} })).toEqual({ id: 'a', text: 'A', x: 0, y: 0 });
+    expect(serializeEdge({ id: 'e', from: 'a', to: 'b', type: 'primary', attributes: {} })).not.toHaveProperty('attributes');
+  });
+});
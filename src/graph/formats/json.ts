@@ -0,0 +1,278 @@
+import { z } from 'zod';
+import { checkIntegrity, type IntegrityIssue } from '../integrity';
+import { DEFAULT_RELATION_TYPES } from '../relations';
+import type { EdgeType, GraphDocument, NodeType, RelationType, Viewport } from '../types';
+
+/**
+ * Файл графа — JSON-объект следующего вида:
+ *
+ * {
+ *   "format": "graph-text-editor",
+ *   "version": 2,
+ *   "metadata": { "name": "…", "createdAt": "ISO-дата", "updatedAt": "ISO-дата" },
+ *   "viewport": { "pan": { "x": 0, "y": 0 }, "zoom": 1 },
+ *   "nodes": [{
+ *     "id": "1", "text": "…", "x": 200, "y": 150, "pinned"?: true,
+ *     "shape"?: "rectangle" | "rounded" | "ellipse" | "diamond" | "sticky" | "group",
+ *     "fill"?: "#ffffff", "border"?: "#e5e7eb", "width"?: 150, "height"?: 80,
+ *     "attributes"?: { "имя": "значение" }
+ *   }],
+ *   "edges": [{
+ *     "id": "e1", "from": "1", "to": "2", "type": "primary", "label"?: "…", "notes"?: "…",
+ *     "routing"?: "straight" | "bezier" | "orthogonal", "attributes"?: { "имя": "значение" }
+ *   }],
+ *   "relationTypes": [{
+ *     "id": "primary", "name": "…", "color": "#9b87f5",
+ *     "dash": "solid" | "dashed" | "dotted",
+ *     "arrowhead": "triangle" | "open" | "diamond" | "circle",
+ *     "directed": true
+ *   }]
+ * }
+ *
+ * Поле type связи ссылается на id записи из relationTypes.
+ *
+ * При изменении структуры версия увеличивается, а в MIGRATIONS добавляется
+ * функция, переводящая данные из предыдущей версии в следующую.
+ */
+
+export const GRAPH_FILE_FORMAT = 'graph-text-editor';
+export const GRAPH_FILE_VERSION = 2;
+export const GRAPH_FILE_EXTENSION = '.graph.json';
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/i);
+
+export const nodeSchema = z.object({
+  id: z.string().min(1),
+  text: z.string(),
+  x: z.number(),
+  y: z.number(),
+  pinned: z.boolean().optional(),
+  shape: z.enum(['rectangle', 'rounded', 'ellipse', 'diamond', 'sticky', 'group']).optional(),
+  fill: colorSchema.optional(),
+  border: colorSchema.optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  attributes: z.record(z.string()).optional(),
+});
+
+export const edgeSchema = z.object({
+  id: z.string().min(1),
+  from: z.string().min(1),
+  to: z.string().min(1),
+  type: z.string().min(1),
+  label: z.string().optional(),
+  notes: z.string().optional(),
+  routing: z.enum(['straight', 'bezier', 'orthogonal']).optional(),
+  attributes: z.record(z.string()).optional(),
+});
+
+export const relationTypeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  color: colorSchema,
+  dash: z.enum(['solid', 'dashed', 'dotted']),
+  arrowhead: z.enum(['triangle', 'open', 'diamond', 'circle']),
+  directed: z.boolean(),
+});
+
+const graphFileSchema = z.object({
+  format: z.literal(GRAPH_FILE_FORMAT),
+  version: z.literal(GRAPH_FILE_VERSION),
+  metadata: z
+    .object({
+      name: z.string().optional(),
+      createdAt: z.string().datetime().optional(),
+      updatedAt: z.string().datetime().optional(),
+    })
+    .default({}),
+  viewport: z
+    .object({ pan: pointSchema, zoom: z.number().positive() })
+    .default({ pan: { x: 0, y: 0 }, zoom: 1 }),
+  nodes: z.array(nodeSchema),
+  edges: z.array(edgeSchema),
+  relationTypes: z.array(relationTypeSchema),
+});
+
+export type GraphFile = z.infer<typeof graphFileSchema>;
+
+export type GraphFileMetadata = {
+  name?: string;
+  createdAt?: number;
+  updatedAt?: number;
+};
+
+export type GraphFileContents = {
+  doc: GraphDocument;
+  viewport: Viewport;
+  metadata: GraphFileMetadata;
+};
+
+export class GraphFileError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'GraphFileError';
+    this.issues = issues;
+  }
+}
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// Ключ — версия, из которой выполняется переход в следующую
+const MIGRATIONS: Record<number, Migration> = {
+  // Версия 0 — «голый» объект { nodes, edges } без заголовка формата
+  0: data => ({
+    format: GRAPH_FILE_FORMAT,
+    version: 1,
+    metadata: typeof data.name === 'string' ? { name: data.name } : {},
+    nodes: data.nodes,
+    edges: data.edges,
+  }),
+  // Версия 2 добавила реестр типов связей; старые файлы знали только два встроенных типа
+  1: data => ({
+    ...data,
+    version: 2,
+    relationTypes: DEFAULT_RELATION_TYPES,
+  }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const detectVersion = (data: Record<string, unknown>) => {
+  if (data.format === undefined && data.version === undefined && 'nodes' in data) return 0;
+  if (data.format !== GRAPH_FILE_FORMAT) {
+    throw new GraphFileError('Файл не является графом редактора');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 0) {
+    throw new GraphFileError('В файле не указана корректная версия формата');
+  }
+  return data.version;
+};
+
+export const migrateGraphFile = (data: Record<string, unknown>) => {
+  let version = detectVersion(data);
+  if (version > GRAPH_FILE_VERSION) {
+    throw new GraphFileError(
+      `Файл создан в более новой версии редактора (формат ${version}, поддерживается до ${GRAPH_FILE_VERSION})`
+    );
+  }
+
+  let migrated = data;
+  while (version < GRAPH_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new GraphFileError(`Нет миграции для версии формата ${version}`);
+    migrated = migrate(migrated);
+    version += 1;
+  }
+  return migrated;
+};
+
+export const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part),
+    ''
+  ) || '(корень)';
+
+const describeIssue = (issue: IntegrityIssue) => {
+  switch (issue.code) {
+    case 'dangling-edge':
+      return `связь ${issue.id} ссылается на отсутствующий узел ${issue.missing}`;
+    case 'unknown-type':
+      return `связь ${issue.id} ссылается на неизвестный тип ${issue.missing}`;
+    default:
+      return `повторяющийся идентификатор ${issue.id}`;
+  }
+};
+
+const toTimestamp = (value?: string) => (value ? Date.parse(value) : undefined);
+
+export const parseGraphFile = (text: string): GraphFileContents => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new GraphFileError('Файл не является корректным JSON', [(error as Error).message]);
+  }
+  if (!isRecord(raw)) throw new GraphFileError('Файл не является графом редактора');
+
+  const result = graphFileSchema.safeParse(migrateGraphFile(raw));
+  if (!result.success) {
+    throw new GraphFileError(
+      'Файл графа повреждён или имеет неверную структуру',
+      result.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`)
+    );
+  }
+
+  const { metadata, viewport, nodes, edges, relationTypes } = result.data;
+  const doc: GraphDocument = { nodes, edges, relationTypes };
+  const integrity = checkIntegrity(doc);
+  if (integrity.length > 0) {
+    throw new GraphFileError('Файл графа содержит битые ссылки', integrity.map(describeIssue));
+  }
+
+  return {
+    doc,
+    viewport,
+    metadata: {
+      name: metadata.name,
+      createdAt: toTimestamp(metadata.createdAt),
+      updatedAt: toTimestamp(metadata.updatedAt),
+    },
+  };
+};
+
+// Сериализуются только известные формату поля, без служебных свойств
+export const serializeNode = ({ id, text, x, y, pinned, shape, fill, border, width, height, attributes }: NodeType) => ({
+  id,
+  text,
+  x,
+  y,
+  ...(pinned && { pinned }),
+  ...(shape && { shape }),
+  ...(fill && { fill }),
+  ...(border && { border }),
+  ...(width !== undefined && { width }),
+  ...(height !== undefined && { height }),
+  ...(attributes && Object.keys(attributes).length > 0 && { attributes }),
+});
+
+export const serializeEdge = ({ id, from, to, type, label, notes, routing, attributes }: EdgeType) => ({
+  id,
+  from,
+  to,
+  type,
+  ...(label && { label }),
+  ...(notes && { notes }),
+  ...(routing && routing !== 'straight' && { routing }),
+  ...(attributes && Object.keys(attributes).length > 0 && { attributes }),
+});
+
+export const serializeRelationType = ({ id, name, color, dash, arrowhead, directed }: RelationType) => ({
+  id,
+  name,
+  color,
+  dash,
+  arrowhead,
+  directed,
+});
+
+export const serializeGraphFile = ({ doc, viewport, metadata }: GraphFileContents) => {
+  const file: GraphFile = {
+    format: GRAPH_FILE_FORMAT,
+    version: GRAPH_FILE_VERSION,
+    metadata: {
+      name: metadata.name,
+      createdAt: metadata.createdAt !== undefined ? new Date(metadata.createdAt).toISOString() : undefined,
+      updatedAt: metadata.updatedAt !== undefined ? new Date(metadata.updatedAt).toISOString() : undefined,
+    },
+    viewport,
+    nodes: doc.nodes.map(serializeNode),
+    edges: doc.edges.map(serializeEdge),
+    relationTypes: doc.relationTypes.map(serializeRelationType),
+  };
+  return JSON.stringify(file, null, 2);
+};
@@ -0,0 +1,534 @@
+import { createId } from '../document';
+import type { LayeredOrientation } from '../layout';
+import { ALIAS_RELATION, DEFAULT_RELATION_TYPES, PRIMARY_RELATION, WIKI_RELATION } from '../relations';
+import type { DashStyle, EdgeType, GraphDocument, NodeShape, NodeType, RelationType } from '../types';
+import {
+  GROUP_FILLS,
+  createRelationRegistry,
+  createWarnings,
+  frameGroups,
+  normalizeColor,
+  placeNodes,
+  type ImportedGraph,
+  type ImportedGroup,
+  type RelationStyle,
+} from './common';
+import { GraphFileError } from './json';
+
+/**
+ * Обмен с Mermaid (диаграммы flowchart). Экспорт пишет узлы n1…nN с текстом
+ * и формой, основные связи — сплошными стрелками, псевдонимы — пунктирными,
+ * остальные типы — по своему оформлению с цветом через linkStyle. Координат
+ * в Mermaid нет, поэтому направление диаграммы выбирается по тому, как
+ * разложены основные связи.
+ *
+ * Импорт понимает flowchart и graph с узлами всех форм, цепочками и
+ * группами через &, подписями связей, подграфами (становятся узлами-группами
+ * вокруг своих узлов), style, classDef, class и linkStyle. Текст можно вставлять вместе
+ * с ограждением ```mermaid из Markdown. Узлы раскладываются автоматически.
+ */
+
+export const MERMAID_FILE_EXTENSION = '.mmd';
+
+// ---------- Экспорт ----------
+
+const escapeLabel = (text: string) =>
+  text.replace(/#/g, '#35;').replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\r?\n/g, '<br>');
+
+const SHAPE_TO_MERMAID: Record<NodeShape, [string, string]> = {
+  rectangle: ['[', ']'],
+  rounded: ['(', ')'],
+  ellipse: ['([', '])'],
+  diamond: ['{', '}'],
+  sticky: ['>', ']'],
+  group: ['[', ']'],
+};
+
+// Направление по основным связям: преобладают горизонтальные — LR, иначе TD
+const guessDirection = (doc: GraphDocument) => {
+  const nodeById = new Map(doc.nodes.map(n => [n.id, n]));
+  let dx = 0;
+  let dy = 0;
+  for (const edge of doc.edges) {
+    const from = nodeById.get(edge.from);
+    const to = nodeById.get(edge.to);
+    if (edge.type !== PRIMARY_RELATION || !from || !to) continue;
+    dx += Math.abs(to.x - from.x);
+    dy += Math.abs(to.y - from.y);
+  }
+  return dx > dy ? 'LR' : 'TD';
+};
+
+const linkFor = (type: RelationType | undefined, edgeType: string) => {
+  if (edgeType === ALIAS_RELATION) return '-.->';
+  if (!type) return '-->';
+  const head = !type.directed ? '' : type.arrowhead === 'circle' ? 'o' : '>';
+  if (type.dash === 'solid') return head ? `--${head}` : '---';
+  return `-.-${head}`;
+};
+
+export const exportMermaid = (doc: GraphDocument, name = '') => {
+  const relationById = new Map(doc.relationTypes.map(t => [t.id, t]));
+  const ids = new Map(doc.nodes.map((n, i) => [n.id, `n${i + 1}`]));
+  const lines: string[] = [];
+  if (name.trim()) lines.push('---', `title: ${name.trim().replace(/\n/g, ' ')}`, '---');
+  lines.push(`flowchart ${guessDirection(doc)}`);
+
+  for (const node of doc.nodes) {
+    const [open, close] = SHAPE_TO_MERMAID[node.shape ?? 'rounded'];
+    lines.push(`  ${ids.get(node.id)}${open}"${escapeLabel(node.text)}"${close}`);
+  }
+
+  // Вики-связи выводятся из [[ссылок]] в тексте и при импорте восстановятся сами
+  const edges = doc.edges.filter(e => e.type !== WIKI_RELATION && ids.has(e.from) && ids.has(e.to));
+  const styled = new Map<string, number[]>();
+  edges.forEach((edge, index) => {
+    const type = relationById.get(edge.type);
+    const label = edge.label ? `|"${escapeLabel(edge.label)}"|` : '';
+    lines.push(`  ${ids.get(edge.from)} ${linkFor(type, edge.type)}${label} ${ids.get(edge.to)}`);
+    if (type && edge.type !== PRIMARY_RELATION && edge.type !== ALIAS_RELATION) {
+      styled.set(edge.type, [...(styled.get(edge.type) ?? []), index]);
+    }
+  });
+
+  for (const node of doc.nodes) {
+    const css = [node.fill && `fill:${node.fill}`, node.border && `stroke:${node.border}`].filter(Boolean);
+    if (css.length) lines.push(`  style ${ids.get(node.id)} ${css.join(',')}`);
+  }
+  for (const [typeId, indices] of styled) {
+    const type = relationById.get(typeId)!;
+    const css = [`stroke:${type.color}`, type.dash === 'dashed' && 'stroke-dasharray:6 4'].filter(Boolean);
+    lines.push(`  linkStyle ${indices.join(',')} ${css.join(',')}`);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+// Обёртка для вставки в Markdown-документацию
+export const mermaidCodeBlock = (doc: GraphDocument, name = '') => `\`\`\`mermaid\n${exportMermaid(doc, name)}\`\`\`\n`;
+
+// ---------- Разбор ----------
+
+type LinkStroke = 'solid' | 'dotted' | 'thick' | 'invisible';
+
+type ParsedLink = { stroke: LinkStroke; head?: string; tail?: string; label?: string };
+
+type ParsedNode = { id: string; text?: string; shape?: NodeShape; classes: string[]; group?: number };
+
+type ParsedEdge = { from: string; to: string; link: ParsedLink };
+
+type Css = Record<string, string>;
+
+type ParsedSubgraph = { id?: string; title: string; parent?: number };
+
+type ParsedFlowchart = {
+  direction: string;
+  nodes: Map<string, ParsedNode>;
+  edges: ParsedEdge[];
+  subgraphs: ParsedSubgraph[];
+  styles: Map<string, Css>;
+  classes: Map<string, Css>;
+  linkStyles: Map<number | 'default', Css>;
+};
+
+const syntaxError = (line: number, message: string) =>
+  new GraphFileError('Не удалось разобрать диаграмму Mermaid', [`Строка ${line}: ${message}`]);
+
+const HEADER = /^(flowchart|graph)(?:[ \t]+(TB|TD|BT|RL|LR))?[ \t]*(?=[;\n]|$)/i;
+
+const OTHER_DIAGRAMS = /^(sequenceDiagram|classDiagram|stateDiagram|erDiagram|journey|gantt|pie|gitGraph|mindmap|timeline|quadrantChart|requirementDiagram|C4\w*|sankey|xychart|block)/i;
+
+// Текст диаграммы без ограждения Markdown, front matter и комментариев
+const extractSource = (text: string) => {
+  const fenced = text.match(/```mermaid[^\n]*\n([\s\S]*?)```/);
+  let source = (fenced ? fenced[1] : text).replace(/\r\n?/g, '\n');
+  let title: string | undefined;
+  const frontMatter = source.match(/^\s*---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/);
+  if (frontMatter) {
+    title = frontMatter[1].match(/^title:\s*(.+)$/m)?.[1].trim().replace(/^(["'])(.*)\1$/, '$2');
+    // Строки front matter заменяются пустыми, чтобы номера строк в ошибках совпадали
+    source = '\n'.repeat(frontMatter[0].split('\n').length - 1) + source.slice(frontMatter[0].length);
+  }
+  source = source
+    .split('\n')
+    .map(line => (/^\s*%%/.test(line) ? '' : line))
+    .join('\n');
+  return { source, title };
+};
+
+// Похож ли текст на диаграмму flowchart: так вставка отличает Mermaid от простого текста
+export const isMermaidSource = (text: string) => {
+  const { source } = extractSource(text);
+  return HEADER.test(source.trim());
+};
+
+const decodeLabel = (label: string) =>
+  label
+    .replace(/^`([\s\S]*)`$/, '$1')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#(\w+);/g, (entity, code: string) => {
+      if (/^\d+$/.test(code)) return String.fromCodePoint(Number(code));
+      return ({ quot: '"', amp: '&', lt: '<', gt: '>', nbsp: ' ' } as Record<string, string>)[code] ?? entity;
+    })
+    .trim();
+
+// Открывающая скобка → закрывающая и форма; длинные варианты проверяются раньше коротких
+const SHAPES: [string, string, NodeShape | undefined, string?][] = [
+  ['(((', ')))', 'ellipse'],
+  ['((', '))', 'ellipse'],
+  ['([', '])', 'ellipse'],
+  ['[[', ']]', 'rectangle'],
+  ['[(', ')]', 'rectangle', 'цилиндр'],
+  ['{{', '}}', 'diamond', 'шестиугольник'],
+  ['[/', '/]', 'rectangle', 'параллелограмм'],
+  ['[\\', '\\]', 'rectangle', 'параллелограмм'],
+  ['[/', '\\]', 'rectangle', 'трапеция'],
+  ['[\\', '/]', 'rectangle', 'трапеция'],
+  ['[', ']', 'rectangle'],
+  ['(', ')', undefined],
+  ['{', '}', 'diamond'],
+  ['>', ']', 'sticky'],
+];
+
+const parseCss = (css: string): Css => {
+  const result: Css = {};
+  for (const part of css.split(/,(?![^(]*\))/)) {
+    const [key, ...value] = part.split(':');
+    if (key.trim() && value.length) result[key.trim().toLowerCase()] = value.join(':').trim().replace(/;$/, '');
+  }
+  return result;
+};
+
+const parseFlowchart = (source: string, warnings: ReturnType<typeof createWarnings>): ParsedFlowchart => {
+  const chart: ParsedFlowchart = {
+    direction: 'TD',
+    nodes: new Map(),
+    edges: [],
+    subgraphs: [],
+    styles: new Map(),
+    classes: new Map(),
+    linkStyles: new Map(),
+  };
+  let pos = 0;
+  let line = 1;
+  const groups: number[] = [];
+
+  const peekChar = () => source[pos];
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) if (source[pos++] === '\n') line++;
+  };
+  const skipSpaces = () => {
+    while (pos < source.length && (source[pos] === ' ' || source[pos] === '\t')) pos++;
+  };
+  const rest = () => source.slice(pos);
+  const atStatementEnd = () => pos >= source.length || peekChar() === '\n' || peekChar() === ';';
+
+  // Остаток утверждения целиком, для style, classDef и подобных
+  const readRest = () => {
+    const start = pos;
+    while (!atStatementEnd()) pos++;
+    return source.slice(start, pos).trim();
+  };
+
+  const readWord = () => rest().match(/^[\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*/u)?.[0];
+
+  const readText = (close: string) => {
+    skipSpaces();
+    if (peekChar() === '"') {
+      const end = source.indexOf('"', pos + 1);
+      if (end < 0) throw syntaxError(line, 'незакрытая кавычка');
+      const text = source.slice(pos + 1, end);
+      advance(end + 1 - pos);
+      skipSpaces();
+      if (!rest().startsWith(close)) throw syntaxError(line, `ожидалось «${close}»`);
+      advance(close.length);
+      return text;
+    }
+    const end = source.indexOf(close, pos);
+    const newline = source.indexOf('\n', pos);
+    if (end < 0 || (newline >= 0 && newline < end)) throw syntaxError(line, `ожидалось «${close}»`);
+    const text = source.slice(pos, end);
+    advance(end + close.length - pos);
+    return text;
+  };
+
+  const node = (id: string) => {
+    let parsed = chart.nodes.get(id);
+    if (!parsed) {
+      parsed = { id, classes: [] };
+      chart.nodes.set(id, parsed);
+    }
+    if (parsed.group === undefined && groups.length) parsed.group = groups[groups.length - 1];
+    return parsed;
+  };
+
+  const readNode = () => {
+    skipSpaces();
+    const id = readWord();
+    if (!id) throw syntaxError(line, atStatementEnd() ? 'ожидался узел' : `неожиданный символ «${peekChar()}»`);
+    advance(id.length);
+    const parsed = node(id);
+    if (rest().startsWith('@{')) throw syntaxError(line, 'синтаксис @{…} не поддерживается');
+    // [/ и [\ открывают и параллелограмм, и трапецию — различает закрывающая скобка
+    const opener = SHAPES.find(([open]) => rest().startsWith(open))?.[0];
+    const shape = SHAPES.filter(([open]) => open === opener)
+      .map(candidate => ({ candidate, at: source.indexOf(candidate[1], pos + candidate[0].length) }))
+      .filter(({ at }) => at >= 0)
+      .sort((a, b) => a.at - b.at)[0]?.candidate ?? SHAPES.find(([open]) => open === opener);
+    if (shape) {
+      const [open, close, kind, unsupported] = shape;
+      advance(open.length);
+      parsed.text = decodeLabel(readText(close));
+      parsed.shape = kind;
+      if (unsupported) warnings.add(`Форма «${unsupported}» заменена ${kind === 'diamond' ? 'ромбом' : 'прямоугольником'}`);
+    }
+    if (rest().startsWith(':::')) {
+      advance(3);
+      const name = readWord();
+      if (!name) throw syntaxError(line, 'ожидалось имя класса');
+      advance(name.length);
+      parsed.classes.push(name);
+    }
+    return id;
+  };
+
+  const readNodeGroup = () => {
+    const ids = [readNode()];
+    for (;;) {
+      skipSpaces();
+      if (peekChar() !== '&') return ids;
+      advance(1);
+      ids.push(readNode());
+    }
+  };
+
+  // Наконечники o и x считаются таковыми, только если за ними не идёт имя узла
+  const LINK = /^(<|o|x)?(?:(-{2,})|(-\.+-)|(={2,})|(~{3,}))(>|[ox](?![\p{L}\p{N}_]))?/u;
+  // Начало связи с подписью внутри: A-- текст -->B, A-. текст .->B, A== текст ==>B
+  const INLINE_START = /^(<|o|x)?(--|-\.|==)(?![-.=>])/;
+  const INLINE_END: Record<string, RegExp> = {
+    '--': /(-{2,}[>ox]?)/,
+    '-.': /(\.-+[>ox]?)/,
+    '==': /(={2,}[>ox]?)/,
+  };
+
+  const strokeOf = (dashes?: string, dots?: string, equals?: string): LinkStroke =>
+    dots ? 'dotted' : equals ? 'thick' : dashes ? 'solid' : 'invisible';
+
+  const readLink = (): ParsedLink | null => {
+    skipSpaces();
+    let link: ParsedLink | null = null;
+    const inline = rest().match(INLINE_START);
+    const plain = rest().match(LINK);
+    // «K <-- J» — обычная связь, «A -- да --> B» — связь с подписью: всё решает, есть ли закрывающая часть
+    const currentLine = rest().split('\n')[0];
+    const closing = inline && INLINE_END[inline[2]].exec(currentLine.slice(inline[0].length));
+    if (inline && closing && !(plain && plain[0].length > inline[0].length)) {
+      const label = decodeLabel(currentLine.slice(inline[0].length, inline[0].length + closing.index).replace(/^\s*"([\s\S]*)"\s*$/, '$1'));
+      advance(inline[0].length + closing.index + closing[1].length);
+      link = {
+        stroke: inline[2] === '-.' ? 'dotted' : inline[2] === '==' ? 'thick' : 'solid',
+        tail: inline[1],
+        head: closing[1].match(/[>ox]$/)?.[0],
+        label: label || undefined,
+      };
+    } else if (plain) {
+      advance(plain[0].length);
+      const [, tail, dashes, dots, equals, , head] = plain;
+      link = { stroke: strokeOf(dashes, dots, equals), tail, head };
+    } else if (inline) {
+      throw syntaxError(line, 'незавершённая связь с подписью');
+    }
+    if (!link) return null;
+    skipSpaces();
+    if (peekChar() === '|') {
+      advance(1);
+      link.label = decodeLabel(readText('|').replace(/^\s*"([\s\S]*)"\s*$/, '$1')) || undefined;
+    }
+    return link;
+  };
+
+  const readEdgeStatement = () => {
+    let sources = readNodeGroup();
+    for (;;) {
+      const link = readLink();
+      if (!link) break;
+      const targets = readNodeGroup();
+      for (const from of sources) for (const to of targets) chart.edges.push({ from, to, link });
+      sources = targets;
+    }
+  };
+
+  const readStatement = () => {
+    const keyword = readWord()?.toLowerCase();
+    const after = source[pos + (keyword?.length ?? 0)];
+    const isKeyword = after === undefined || after === ' ' || after === '\t' || after === '\n' || after === ';';
+    if (keyword === 'subgraph' && isKeyword) {
+      advance(keyword.length);
+      skipSpaces();
+      const header = readRest().trim();
+      // subgraph id [Заголовок], subgraph "Заголовок" или просто subgraph Заголовок
+      const titled = header.match(/^([\p{L}\p{N}_-]+)\s*\[([\s\S]*)\]$/u);
+      const id = titled?.[1] ?? header.match(/^[\p{L}\p{N}_-]+$/u)?.[0];
+      const title = (titled?.[2] ?? header).replace(/^\s*"([\s\S]*)"\s*$/, '$1');
+      groups.push(chart.subgraphs.push({ id, title: decodeLabel(title), parent: groups[groups.length - 1] }) - 1);
+      return;
+    }
+    if (keyword === 'end' && isKeyword) {
+      advance(3);
+      if (!groups.length) throw syntaxError(line, 'end без subgraph');
+      groups.pop();
+      return;
+    }
+    if (keyword === 'direction' && isKeyword) {
+      advance(keyword.length);
+      readRest();
+      return;
+    }
+    if ((keyword === 'style' || keyword === 'classdef' || keyword === 'class' || keyword === 'linkstyle') && isKeyword) {
+      advance(keyword.length);
+      skipSpaces();
+      const target = source.slice(pos).match(/^\S+/)?.[0];
+      if (!target) throw syntaxError(line, 'ожидалось имя после ' + keyword);
+      advance(target.length);
+      const value = readRest();
+      if (keyword === 'style') chart.styles.set(target, { ...chart.styles.get(target), ...parseCss(value) });
+      else if (keyword === 'classdef') {
+        for (const name of target.split(',')) chart.classes.set(name, { ...chart.classes.get(name), ...parseCss(value) });
+      } else if (keyword === 'class') {
+        for (const id of target.split(',')) node(id).classes.push(value);
+      } else {
+        for (const index of target.split(',')) {
+          const key = index === 'default' ? 'default' : Number(index);
+          if (key !== 'default' && !Number.isInteger(key)) throw syntaxError(line, `неверный номер связи «${index}»`);
+          chart.linkStyles.set(key, { ...chart.linkStyles.get(key), ...parseCss(value) });
+        }
+      }
+      return;
+    }
+    if ((keyword === 'click' || keyword === 'acctitle' || keyword === 'accdescr') && (isKeyword || after === ':')) {
+      if (keyword === 'click') warnings.add('Интерактивные ссылки (click) пропущены');
+      readRest();
+      return;
+    }
+    readEdgeStatement();
+  };
+
+  // Заголовок flowchart/graph с направлением
+  while (pos < source.length && /\s/.test(peekChar())) advance(1);
+  const header = rest().match(HEADER);
+  if (!header) {
+    const other = rest().match(OTHER_DIAGRAMS);
+    throw syntaxError(line, other ? `диаграммы ${other[1]} не поддерживаются, только flowchart` : 'ожидалось flowchart или graph');
+  }
+  chart.direction = (header[2] ?? 'TD').toUpperCase();
+  advance(header[0].length);
+
+  for (;;) {
+    while (pos < source.length && /[\s;]/.test(peekChar())) advance(1);
+    if (pos >= source.length) break;
+    readStatement();
+    skipSpaces();
+    if (!atStatementEnd()) throw syntaxError(line, `неожиданный символ «${peekChar()}»`);
+  }
+  if (groups.length) throw syntaxError(line, 'subgraph без end');
+  return chart;
+};
+
+// ---------- Перевод в документ ----------
+
+const dashOf = (css: Css | undefined, stroke: LinkStroke): DashStyle | undefined => {
+  if (stroke === 'dotted') return css?.['stroke-dasharray'] ? 'dashed' : 'dotted';
+  return css?.['stroke-dasharray'] ? 'dashed' : undefined;
+};
+
+/**
+ * Разбирает диаграмму Mermaid. Типы связей подбираются по оформлению среди
+ * relationTypes — при вставке в граф переиспользуются его собственные типы.
+ */
+export const importMermaid = (text: string, relationTypes: readonly RelationType[] = DEFAULT_RELATION_TYPES): ImportedGraph => {
+  const warnings = createWarnings();
+  const { source, title } = extractSource(text);
+  const chart = parseFlowchart(source, warnings);
+
+  if (chart.edges.some(e => e.link.stroke === 'thick')) warnings.add('Толстые линии импортированы как обычные');
+  if (chart.edges.some(e => e.link.stroke === 'invisible')) warnings.add('Невидимые связи импортированы как обычные');
+  if (chart.edges.some(e => e.link.head === 'x' || e.link.tail === 'x')) warnings.add('Наконечник «x» заменён треугольником');
+  if (chart.edges.some(e => e.link.tail && e.link.head)) warnings.add('Двусторонние связи импортированы как направленные');
+
+  const ids = new Map<string, string>();
+  // Подграфы становятся группами; связь с подграфом целиком ведёт к его рамке
+  const groups: ImportedGroup[] = chart.subgraphs.map((subgraph, i) => {
+    const css: Css = { ...(subgraph.id && chart.styles.get(subgraph.id)) };
+    const node: NodeType = {
+      id: createId(),
+      text: subgraph.title,
+      x: 0,
+      y: 0,
+      shape: 'group',
+      fill: normalizeColor(css.fill) ?? GROUP_FILLS[i % GROUP_FILLS.length],
+    };
+    if (subgraph.id) ids.set(subgraph.id, node.id);
+    return { node, members: [] };
+  });
+  chart.subgraphs.forEach((subgraph, i) => {
+    if (subgraph.parent !== undefined) groups[subgraph.parent].members.push(groups[i].node.id);
+  });
+
+  const nodes: NodeType[] = [];
+  for (const parsed of chart.nodes.values()) {
+    if (ids.has(parsed.id)) continue;
+    const css: Css = Object.assign({}, ...parsed.classes.map(name => chart.classes.get(name)), chart.styles.get(parsed.id));
+    const fill = normalizeColor(css.fill);
+    const border = normalizeColor(css.stroke);
+    const node: NodeType = {
+      id: createId(),
+      text: parsed.text ?? parsed.id,
+      x: 0,
+      y: 0,
+      ...(parsed.shape && { shape: parsed.shape }),
+      ...(fill && { fill }),
+      ...(border && { border }),
+    };
+    ids.set(parsed.id, node.id);
+    if (parsed.group !== undefined) groups[parsed.group].members.push(node.id);
+    nodes.push(node);
+  }
+
+  const registry = createRelationRegistry(relationTypes);
+  const defaultCss = chart.linkStyles.get('default');
+  const edges: EdgeType[] = [];
+  chart.edges.forEach(({ from, to, link }, index) => {
+    if (!ids.has(from) || !ids.has(to)) return;
+    const css = { ...defaultCss, ...chart.linkStyles.get(index) };
+    const color = normalizeColor(css.stroke);
+    const dash = dashOf(css, link.stroke);
+    // Стрелка только в начале (A <-- B) разворачивает связь
+    const reversed = Boolean(link.tail) && !link.head;
+    const end = link.head ?? link.tail;
+    const directed = end !== undefined;
+    let type: string;
+    if (link.stroke === 'dotted' && directed && end !== 'o' && !color && dash === 'dotted') {
+      type = ALIAS_RELATION;
+    } else {
+      const style: Partial<RelationStyle> = {
+        color,
+        dash,
+        directed,
+        ...(end === 'o' && { arrowhead: 'circle' as const }),
+      };
+      type = registry.resolve(style);
+    }
+    edges.push({
+      id: createId(),
+      from: ids.get(reversed ? to : from)!,
+      to: ids.get(reversed ? from : to)!,
+      type,
+      ...(link.label && { label: link.label }),
+    });
+  });
+
+  const orientation: LayeredOrientation = chart.direction === 'LR' || chart.direction === 'RL' ? 'left-right' : 'top-down';
+  if (chart.direction === 'BT' || chart.direction === 'RL') warnings.add(`Направление ${chart.direction} заменено на ${orientation === 'left-right' ? 'LR' : 'TD'}`);
+  const doc = frameGroups(placeNodes({ nodes, edges, relationTypes: registry.types() }, new Set(), warnings, orientation), groups);
+  return { doc, name: title, warnings: warnings.list() };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RELATION_TYPES } from '../relations';
+import type { GraphDocument } from '../types';
+import { exportOutline, importOutline } from './outline';
+
+const graph: GraphDocument = {
+  nodes: [
+    { id: 'a', text: 'Alpha', x: 0, y: 0 },
+    { id: 'b', text: '', x: 0, y: 0 },
+    { id: 'c', text: 'Список\n- не пункт\n* и это\n1. тоже\n# не заголовок\n\\- уже с косой', x: 0, y: 0 },
+    { id: 'd', text: '- [ ] Задача', x: 0, y: 0 },
+  ],
+  edges: [
+    { id: 'e1', from: 'a', to: 'b', type: 'primary' },
+    { id: 'e2', from: 'a', to: 'c', type: 'primary' },
+    { id: 'e3', from: 'c', to: 'd', type: 'primary' },
+  ],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+const tree = (doc: GraphDocument) => ({
+  texts: doc.nodes.map(n => n.text),
+  edges: doc.edges.map(e => [doc.nodes.findIndex(n => n.id === e.from), doc.nodes.findIndex(n => n.id === e.to)]),
+});
+
+describe('outline', () => {
+  it('восстанавливает дерево после экспорта и импорта', () => {
+    const { doc } = importOutline(exportOutline(graph));
+    expect(tree(doc)).toEqual(tree(graph));
+  });
+
+  it('пишет пустой узел пустым пунктом', () => {
+    expect(exportOutline(graph).split('\n')[1]).toBe('  -');
+  });
+});
@@ -0,0 +1,161 @@
+import { createId } from '../document';
+import { DEFAULT_RELATION_TYPES, PRIMARY_RELATION } from '../relations';
+import type { EdgeType, GraphDocument, NodeType } from '../types';
+import { createWarnings, placeNodes, type ImportedGraph } from './common';
+import { GraphFileError } from './json';
+import { childElement, childElements, findElement, parseXml, type XmlElement } from './xml';
+
+/**
+ * Структурированный список (план): вложенный список Markdown, текст
+ * с отступами табуляцией или OPML. Каждый пункт становится узлом, вложенность —
+ * основными связями от родителя к детям, дерево раскладывается автоматически.
+ *
+ * Экспорт обратный: из основных связей строится остовное дерево и пишется
+ * вложенным списком Markdown. Узел, достижимый по нескольким путям,
+ * попадает в список один раз, остальные связи теряются.
+ */
+
+export const OUTLINE_FILE_EXTENSION = '.md';
+export const OPML_FILE_EXTENSION = '.opml';
+
+// ---------- Экспорт ----------
+
+// Первая строка узла без заголовка, цитаты и маркера списка; флажок задачи остаётся
+const LINE_PREFIX = /^(#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)/;
+
+// Строка продолжения, похожая на пункт или заголовок, экранируется обратной
+// косой чертой; уже экранированная получает ещё одну, чтобы разбор был обратим
+const ESCAPED_MARKER = /^\\*([-*+]|#{1,6}|\d+[.)])(\s|$)/;
+
+export const exportOutline = (doc: GraphDocument) => {
+  const nodeById = new Map(doc.nodes.map(n => [n.id, n]));
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  for (const edge of doc.edges) {
+    if (edge.type !== PRIMARY_RELATION || edge.from === edge.to) continue;
+    if (!nodeById.has(edge.from) || !nodeById.has(edge.to)) continue;
+    children.set(edge.from, [...(children.get(edge.from) ?? []), edge.to]);
+    hasParent.add(edge.to);
+  }
+
+  const lines: string[] = [];
+  const visited = new Set<string>();
+  const visit = (id: string, depth: number) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const indent = '  '.repeat(depth);
+    const [first = '', ...rest] = nodeById.get(id)!.text.trim().split('\n');
+    // Пустой узел — пустой пункт «-», который Markdown допускает
+    lines.push(`${indent}-${first.trim() ? ` ${first.trim().replace(LINE_PREFIX, '')}` : ''}`);
+    for (const line of rest) {
+      const content = line.trim();
+      lines.push(content ? `${indent}  ${ESCAPED_MARKER.test(content) ? '\\' : ''}${content}` : '');
+    }
+    for (const child of children.get(id) ?? []) visit(child, depth + 1);
+  };
+  // Корни — узлы без входящих основных связей, затем то, что осталось в циклах
+  for (const node of doc.nodes) if (!hasParent.has(node.id)) visit(node.id, 0);
+  for (const node of doc.nodes) visit(node.id, 0);
+
+  return `${lines.join('\n')}\n`;
+};
+
+// ---------- Импорт ----------
+
+type OutlineItem = { text: string; children: OutlineItem[] };
+
+const LIST_ITEM = /^([-*+]|\d+[.)])(?:\s+(.*))?$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const TAB_WIDTH = 4;
+
+const indentWidth = (line: string) => {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width += 1;
+    else if (char === '\t') width += TAB_WIDTH - (width % TAB_WIDTH);
+    else break;
+  }
+  return width;
+};
+
+const isOpml = (text: string) => /^(<\?xml[^>]*>\s*)?<opml[\s>]/i.test(text.trim());
+
+/**
+ * Похоже ли содержимое буфера на план: OPML, список хотя бы из двух пунктов
+ * (начиная с первой строки) или несколько строк, часть из которых с табуляцией.
+ */
+export const isOutlineSource = (text: string) => {
+  if (isOpml(text)) return true;
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) return false;
+  const items = lines.filter(line => LIST_ITEM.test(line.trim()));
+  if (items.length > 0) return items.length >= 2 && (LIST_ITEM.test(lines[0].trim()) || HEADING.test(lines[0]));
+  return lines.some(line => line.startsWith('\t'));
+};
+
+/**
+ * Уровень строки: заголовки старше любого пункта списка, пункты — по отступу.
+ * Строка без маркера внутри списка продолжает текст предыдущего пункта.
+ */
+const parseTextOutline = (text: string) => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const isList = lines.some(line => LIST_ITEM.test(line.trim()));
+  const roots: OutlineItem[] = [];
+  const stack: { rank: number; item: OutlineItem }[] = [];
+
+  for (const line of lines) {
+    const content = line.trim();
+    const heading = content.match(HEADING);
+    const listItem = content.match(LIST_ITEM);
+    if (isList && !heading && !listItem && stack.length) {
+      const last = stack[stack.length - 1].item;
+      last.text += `\n${content.startsWith('\\') && ESCAPED_MARKER.test(content) ? content.slice(1) : content}`;
+      continue;
+    }
+    const rank = heading ? heading[1].length - 100 : indentWidth(line);
+    let itemText = heading ? heading[2] : listItem ? listItem[2] ?? '' : content;
+    // Флажок задачи сохраняется, чтобы узел остался задачей
+    if (listItem && /^\[[ xX]\](\s|$)/.test(itemText)) itemText = `- ${itemText}`;
+    const item: OutlineItem = { text: itemText, children: [] };
+    while (stack.length && stack[stack.length - 1].rank >= rank) stack.pop();
+    (stack.length ? stack[stack.length - 1].item.children : roots).push(item);
+    stack.push({ rank, item });
+  }
+  return roots;
+};
+
+const opmlItems = (element: XmlElement): OutlineItem[] =>
+  childElements(element, 'outline').map(outline => {
+    const text = outline.attributes.text ?? outline.attributes.title ?? '';
+    const note = outline.attributes._note?.trim();
+    return { text: note ? `${text}\n${note}` : text, children: opmlItems(outline) };
+  });
+
+export const importOutline = (text: string): ImportedGraph => {
+  const warnings = createWarnings();
+  let name: string | undefined;
+  let roots: OutlineItem[];
+  if (isOpml(text)) {
+    const root = parseXml(text, 'OPML');
+    const body = childElement(root, 'body');
+    if (!body) throw new GraphFileError('Файл не является документом OPML', ['Нет элемента <body>']);
+    name = findElement(root, 'title')?.text.trim() || undefined;
+    roots = opmlItems(body);
+  } else {
+    roots = parseTextOutline(text);
+  }
+  if (roots.length === 0) throw new GraphFileError('В тексте нет пунктов списка', []);
+
+  const nodes: NodeType[] = [];
+  const edges: EdgeType[] = [];
+  const add = (item: OutlineItem, parent?: string) => {
+    const node: NodeType = { id: createId(), text: item.text, x: 0, y: 0 };
+    nodes.push(node);
+    if (parent) edges.push({ id: createId(), from: parent, to: node.id, type: PRIMARY_RELATION });
+    item.children.forEach(child => add(child, node.id));
+  };
+  roots.forEach(item => add(item));
+
+  const doc = placeNodes({ nodes, edges, relationTypes: DEFAULT_RELATION_TYPES }, new Set(), warnings, 'left-right');
+  return { doc, name, warnings: warnings.list() };
+};
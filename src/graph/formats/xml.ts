@@ -0,0 +1,130 @@
+import { GraphFileError } from './json';
+
+/**
+ * Минимальный разбор XML для форматов обмена: элементы, атрибуты, текст,
+ * CDATA и стандартные сущности. Пространства имён не разрешаются — имя
+ * сравнивается без префикса (localName), чего достаточно для GraphML и GEXF.
+ */
+
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+  line: number;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code] ?? entity;
+  });
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// В значениях атрибутов переводы строк иначе превратились бы в пробелы
+export const escapeAttribute = (text: string) =>
+  escapeXml(text).replace(/\n/g, '&#10;').replace(/\r/g, '&#13;').replace(/\t/g, '&#9;');
+
+export const xmlAttributes = (attributes: Record<string, string | number | boolean | undefined>) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => ` ${key}="${escapeAttribute(String(value))}"`)
+    .join('');
+
+// Имя без префикса пространства имён: y:ShapeNode → ShapeNode
+export const localName = (element: XmlElement) => element.name.slice(element.name.indexOf(':') + 1);
+
+export const childElements = (element: XmlElement, name: string) =>
+  element.children.filter(child => localName(child) === name);
+
+export const childElement = (element: XmlElement, name: string) =>
+  element.children.find(child => localName(child) === name);
+
+// Первый потомок с таким именем на любой глубине
+export const findElement = (element: XmlElement, name: string): XmlElement | undefined => {
+  for (const child of element.children) {
+    if (localName(child) === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const OPEN_TAG = /<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+export const parseXml = (source: string, format: string): XmlElement => {
+  const fail = (line: number, message: string) =>
+    new GraphFileError(`Не удалось разобрать файл ${format}`, [`Строка ${line}: ${message}`]);
+  let pos = 0;
+  let line = 1;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+
+  const skipTo = (marker: string, what: string) => {
+    const end = source.indexOf(marker, pos);
+    if (end < 0) throw fail(line, `незакрытый ${what}`);
+    const skipped = source.slice(pos, end + marker.length);
+    line += skipped.split('\n').length - 1;
+    pos = end + marker.length;
+    return skipped;
+  };
+
+  const appendText = (text: string) => {
+    const parent = stack[stack.length - 1];
+    if (parent) parent.text += text;
+    else if (text.trim()) throw fail(line, 'текст вне корневого элемента');
+  };
+
+  while (pos < source.length) {
+    if (source[pos] !== '<') {
+      const end = source.indexOf('<', pos);
+      const text = source.slice(pos, end < 0 ? source.length : end);
+      appendText(decodeEntities(text));
+      line += text.split('\n').length - 1;
+      pos += text.length;
+      continue;
+    }
+    if (source.startsWith('<!--', pos)) {
+      skipTo('-->', 'комментарий');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      appendText(skipTo(']]>', 'блок CDATA').slice(0, -3));
+    } else if (source.startsWith('<?', pos)) {
+      skipTo('?>', 'заголовок');
+    } else if (source.startsWith('<!', pos)) {
+      // DOCTYPE с внутренним подмножеством заканчивается на ]>
+      skipTo(source.slice(pos, source.indexOf('>', pos)).includes('[') ? ']>' : '>', 'DOCTYPE');
+    } else if (source[pos + 1] === '/') {
+      const tag = skipTo('>', 'тег');
+      const name = tag.slice(2, -1).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) throw fail(line, `неожиданный закрывающий тег </${name}>`);
+    } else {
+      const startLine = line;
+      OPEN_TAG.lastIndex = pos;
+      const tag = OPEN_TAG.exec(source);
+      if (!tag) throw fail(line, 'неверный тег');
+      const element: XmlElement = { name: tag[1], attributes: {}, children: [], text: '', line: startLine };
+      for (const [, key, , double, single] of tag[2].matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        element.attributes[key] = decodeEntities(double ?? single);
+      }
+      line += tag[0].split('\n').length - 1;
+      pos += tag[0].length;
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(element);
+      else if (root) throw fail(startLine, 'больше одного корневого элемента');
+      else root = element;
+      if (!tag[3]) stack.push(element);
+    }
+  }
+  if (stack.length) throw fail(line, `не закрыт тег <${stack[stack.length - 1].name}>`);
+  if (!root) throw fail(line, 'нет корневого элемента');
+  return root;
+};
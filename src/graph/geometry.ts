@@ -0,0 +1,57 @@
+import { MIN_NODE_HEIGHT, MIN_NODE_WIDTH, nodeSize } from './layout/common';
+import type { NodeShape, NodeType } from './types';
+
+export type Box = { x: number; y: number; width: number; height: number };
+
+export type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+// Противоположный угол остаётся на месте, размер не опускается ниже минимального
+export const resizeBox = (origin: Box, corner: Corner, dx: number, dy: number): Box => {
+  const west = corner === 'nw' || corner === 'sw';
+  const north = corner === 'nw' || corner === 'ne';
+  const width = Math.round(Math.max(MIN_NODE_WIDTH, origin.width + (west ? -dx : dx)));
+  const height = Math.round(Math.max(MIN_NODE_HEIGHT, origin.height + (north ? -dy : dy)));
+  return {
+    x: west ? origin.x + origin.width - width : origin.x,
+    y: north ? origin.y + origin.height - height : origin.y,
+    width,
+    height,
+  };
+};
+
+export type Size = { width: number; height: number };
+
+// Размер с экрана точнее: высота карточки без явного размера зависит от текста
+export const nodeBox = (node: NodeType, measured?: Size): Box => ({
+  x: node.x,
+  y: node.y,
+  ...(measured ?? nodeSize(node)),
+});
+
+/**
+ * Точка пересечения луча из центра узла в сторону (dx, dy) с контуром его формы.
+ * Возвращается доля вектора, на которой луч выходит за контур.
+ */
+const boundaryFraction = (shape: NodeShape, halfWidth: number, halfHeight: number, dx: number, dy: number) => {
+  const u = Math.abs(dx) / halfWidth;
+  const v = Math.abs(dy) / halfHeight;
+  switch (shape) {
+    case 'ellipse':
+      return 1 / Math.hypot(u, v);
+    case 'diamond':
+      return 1 / (u + v);
+    default:
+      return 1 / Math.max(u, v);
+  }
+};
+
+export const boundaryPoint = (node: NodeType, box: Box, toward: { x: number; y: number }) => {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+  const t = boundaryFraction(node.shape ?? 'rounded', box.width / 2, box.height / 2, dx, dy);
+  // Точка внутри узла (перекрывающиеся карточки) — линия идёт из центра
+  if (t >= 1) return center;
+  return { x: center.x + dx * t, y: center.y + dy * t };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, recordCommand, redoHistory, sealHistory, undoHistory } from './history';
+import { DEFAULT_RELATION_TYPES } from './relations';
+import type { GraphCommand, GraphDocument } from './types';
+
+const doc: GraphDocument = {
+  nodes: [{ id: 'a', text: 'A', x: 0, y: 0 }],
+  edges: [],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+const move = (from: number, to: number): GraphCommand => ({
+  type: 'update',
+  nodes: [{ id: 'a', before: { x: from }, after: { x: to } }],
+  edges: [],
+});
+
+describe('история', () => {
+  it('сливает изменения с одним ключом в одну запись', () => {
+    let history = recordCommand(EMPTY_HISTORY, 'Перемещение', move(0, 10), { coalesceKey: 'drag' }, 1000);
+    history = recordCommand(history, 'Перемещение', move(10, 20), { coalesceKey: 'drag' }, 1500);
+    history = recordCommand(history, 'Перемещение', move(20, 30), { coalesceKey: 'drag' }, 2400);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].command).toMatchObject({ nodes: [{ id: 'a', before: { x: 0 }, after: { x: 30 } }] });
+    expect(history.past[0].mergeUntil).toBe(3400);
+  });
+
+  it('не сливает изменения после окна, с другим ключом и после закрытия записи', () => {
+    const first = recordCommand(EMPTY_HISTORY, 'Перемещение', move(0, 10), { coalesceKey: 'drag' }, 1000);
+    expect(recordCommand(first, 'Перемещение', move(10, 20), { coalesceKey: 'drag' }, 2001).past).toHaveLength(2);
+    expect(recordCommand(first, 'Перемещение', move(10, 20), { coalesceKey: 'resize' }, 1500).past).toHaveLength(2);
+    expect(recordCommand(sealHistory(first), 'Перемещение', move(10, 20), { coalesceKey: 'drag' }, 1500).past).toHaveLength(2);
+  });
+
+  it('отменяет и повторяет слитую запись целиком', () => {
+    let history = recordCommand(EMPTY_HISTORY, 'Перемещение', move(0, 10), { coalesceKey: 'drag' }, 1000);
+    history = recordCommand(history, 'Перемещение', move(10, 20), { coalesceKey: 'drag' }, 1100);
+    const moved = { ...doc, nodes: [{ ...doc.nodes[0], x: 20 }] };
+    const undone = undoHistory(moved, history)!;
+    expect(undone.doc).toEqual(doc);
+    expect(undone.history.future).toHaveLength(1);
+    expect(redoHistory(undone.doc, undone.history)!.doc).toEqual(moved);
+    expect(undoHistory(doc, EMPTY_HISTORY)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { applyCommand, invertCommand } from './commands';
+import type { GraphCommand, GraphDocument, GraphPatch } from './types';
+
+export type HistoryEntry = {
+  label: string;
+  command: GraphCommand;
+  coalesceKey?: string;
+  mergeUntil?: number;
+};
+
+export type GraphHistory = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export type RecordOptions = {
+  coalesceKey?: string;
+  // Сколько миллисекунд после последнего изменения запись ещё принимает слияние
+  coalesceWindow?: number;
+};
+
+export const EMPTY_HISTORY: GraphHistory = { past: [], future: [] };
+
+const HISTORY_LIMIT = 100;
+const DEFAULT_COALESCE_WINDOW = 1000;
+
+const mergePatches = <T>(older: GraphPatch<T>[], newer: GraphPatch<T>[]) => {
+  const merged = new Map(older.map(p => [p.id, { ...p }]));
+  for (const patch of newer) {
+    const existing = merged.get(patch.id);
+    if (existing) {
+      existing.before = { ...patch.before, ...existing.before };
+      existing.after = { ...existing.after, ...patch.after };
+    } else {
+      merged.set(patch.id, patch);
+    }
+  }
+  return [...merged.values()];
+};
+
+export const recordCommand = (
+  history: GraphHistory,
+  label: string,
+  command: GraphCommand,
+  options: RecordOptions = {},
+  now = Date.now()
+): GraphHistory => {
+  const last = history.past[history.past.length - 1];
+  const window = options.coalesceWindow ?? DEFAULT_COALESCE_WINDOW;
+
+  if (
+    options.coalesceKey &&
+    last?.coalesceKey === options.coalesceKey &&
+    (last.mergeUntil ?? 0) >= now &&
+    last.command.type === 'update' &&
+    command.type === 'update'
+  ) {
+    const merged: HistoryEntry = {
+      ...last,
+      command: {
+        type: 'update',
+        nodes: mergePatches(last.command.nodes, command.nodes),
+        edges: mergePatches(last.command.edges, command.edges),
+        relationTypes: mergePatches(last.command.relationTypes ?? [], command.relationTypes ?? []),
+      },
+      mergeUntil: now + window,
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  const entry: HistoryEntry = {
+    label,
+    command,
+    coalesceKey: options.coalesceKey,
+    mergeUntil: options.coalesceKey ? now + window : undefined,
+  };
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+// Закрывает последнюю запись для слияния, например по окончании перетаскивания
+export const sealHistory = (history: GraphHistory): GraphHistory => {
+  const last = history.past[history.past.length - 1];
+  if (!last?.coalesceKey) return history;
+  return {
+    ...history,
+    past: [...history.past.slice(0, -1), { ...last, coalesceKey: undefined, mergeUntil: undefined }],
+  };
+};
+
+export const undoHistory = (doc: GraphDocument, history: GraphHistory) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    doc: applyCommand(doc, invertCommand(entry.command)),
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+  };
+};
+
+export const redoHistory = (doc: GraphDocument, history: GraphHistory) => {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    doc: applyCommand(doc, entry.command),
+    history: { past: [...history.past, entry], future },
+  };
+};
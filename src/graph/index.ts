@@ -0,0 +1,15 @@
+export * from './types';
+export * from './document';
+export * from './relations';
+export * from './integrity';
+export * from './adjacency';
+export * from './commands';
+export * from './operations';
+export * from './query';
+export * from './geometry';
+export * from './routing';
+export * from './history';
+export * from './layout';
+export * from './clipboard';
+export * from './wiki';
+export * from './neighborhood';
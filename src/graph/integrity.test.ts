@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { assertIntegrity, checkIntegrity, GraphIntegrityError } from './integrity';
+import { DEFAULT_RELATION_TYPES } from './relations';
+import type { GraphDocument } from './types';
+
+const doc: GraphDocument = {
+  nodes: [
+    { id: 'a', text: 'A', x: 0, y: 0 },
+    { id: 'b', text: 'B', x: 0, y: 0 },
+  ],
+  edges: [{ id: 'e1', from: 'a', to: 'b', type: 'primary' }],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+describe('целостность', () => {
+  it('не находит ошибок в корректном графе', () => {
+    expect(checkIntegrity(doc)).toEqual([]);
+    expect(() => assertIntegrity(doc)).not.toThrow();
+  });
+
+  it('находит связь без узла и повторяющиеся идентификаторы', () => {
+    const broken: GraphDocument = {
+      ...doc,
+      nodes: [...doc.nodes, { id: 'a', text: 'Копия', x: 0, y: 0 }],
+      edges: [...doc.edges, { id: 'e1', from: 'b', to: 'c', type: 'primary' }],
+    };
+    expect(checkIntegrity(broken)).toEqual([
+      { code: 'duplicate-node', id: 'a' },
+      { code: 'duplicate-edge', id: 'e1' },
+      { code: 'dangling-edge', id: 'e1', missing: 'c' },
+    ]);
+  });
+
+  it('бросает ошибку со списком нарушений', () => {
+    const broken: GraphDocument = { ...doc, nodes: [doc.nodes[0]] };
+    const error = (() => {
+      try {
+        assertIntegrity(broken);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(GraphIntegrityError);
+    expect((error as GraphIntegrityError).issues).toEqual([{ code: 'dangling-edge', id: 'e1', missing: 'b' }]);
+  });
+
+  it('находит неизвестный и повторяющийся тип связи', () => {
+    const broken: GraphDocument = {
+      ...doc,
+      edges: [{ ...doc.edges[0], type: 'depends' }],
+      relationTypes: [...doc.relationTypes, DEFAULT_RELATION_TYPES[0]],
+    };
+    expect(checkIntegrity(broken)).toEqual([
+      { code: 'duplicate-type', id: DEFAULT_RELATION_TYPES[0].id },
+      { code: 'unknown-type', id: 'e1', missing: 'depends' },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import type { GraphDocument } from './types';
+
+export type IntegrityIssue =
+  | { code: 'duplicate-node'; id: string }
+  | { code: 'duplicate-edge'; id: string }
+  | { code: 'dangling-edge'; id: string; missing: string }
+  | { code: 'duplicate-type'; id: string }
+  | { code: 'unknown-type'; id: string; missing: string };
+
+const describeIssue = (issue: IntegrityIssue) => {
+  switch (issue.code) {
+    case 'duplicate-node':
+      return `duplicate node id "${issue.id}"`;
+    case 'duplicate-edge':
+      return `duplicate edge id "${issue.id}"`;
+    case 'dangling-edge':
+      return `edge "${issue.id}" references missing node "${issue.missing}"`;
+    case 'duplicate-type':
+      return `duplicate relation type id "${issue.id}"`;
+    case 'unknown-type':
+      return `edge "${issue.id}" references unknown relation type "${issue.missing}"`;
+  }
+};
+
+export class GraphIntegrityError extends Error {
+  readonly issues: IntegrityIssue[];
+
+  constructor(issues: IntegrityIssue[]) {
+    super(`Graph integrity violated: ${issues.map(describeIssue).join('; ')}`);
+    this.name = 'GraphIntegrityError';
+    this.issues = issues;
+  }
+}
+
+export const checkIntegrity = (doc: GraphDocument): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const nodeIds = new Set<string>();
+  const edgeIds = new Set<string>();
+  const typeIds = new Set<string>();
+
+  for (const node of doc.nodes) {
+    if (nodeIds.has(node.id)) issues.push({ code: 'duplicate-node', id: node.id });
+    nodeIds.add(node.id);
+  }
+  for (const type of doc.relationTypes) {
+    if (typeIds.has(type.id)) issues.push({ code: 'duplicate-type', id: type.id });
+    typeIds.add(type.id);
+  }
+  for (const edge of doc.edges) {
+    if (edgeIds.has(edge.id)) issues.push({ code: 'duplicate-edge', id: edge.id });
+    edgeIds.add(edge.id);
+    for (const end of [edge.from, edge.to]) {
+      if (!nodeIds.has(end)) issues.push({ code: 'dangling-edge', id: edge.id, missing: end });
+    }
+    if (!typeIds.has(edge.type)) issues.push({ code: 'unknown-type', id: edge.id, missing: edge.type });
+  }
+  return issues;
+};
+
+export const assertIntegrity = (doc: GraphDocument) => {
+  const issues = checkIntegrity(doc);
+  if (issues.length > 0) throw new GraphIntegrityError(issues);
+};
@@ -0,0 +1,20 @@
+import type { NodeType } from '../types';
+
+// Размер карточки узла по умолчанию, по нему считаются центры
+export const NODE_WIDTH = 150;
+export const NODE_HEIGHT = 80;
+
+export const MIN_NODE_WIDTH = 60;
+export const MIN_NODE_HEIGHT = 40;
+
+export const nodeSize = (node: NodeType) => ({
+  width: node.width ?? NODE_WIDTH,
+  height: node.height ?? NODE_HEIGHT,
+});
+
+export const nodeCenter = (node: NodeType) => {
+  const { width, height } = nodeSize(node);
+  return { x: node.x + width / 2, y: node.y + height / 2 };
+};
+
+export type Positions = Map<string, { x: number; y: number }>;
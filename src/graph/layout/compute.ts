@@ -0,0 +1,17 @@
+import type { GraphDocument } from '../types';
+import type { Positions } from './common';
+import { forceLayout, type ForceLayoutOptions } from './force';
+import { layeredLayout, type LayeredLayoutOptions } from './layered';
+
+export type LayoutRequest =
+  | { algorithm: 'force'; options: ForceLayoutOptions }
+  | { algorithm: 'layered'; options: LayeredLayoutOptions };
+
+export const computeLayout = (doc: GraphDocument, request: LayoutRequest): Positions => {
+  switch (request.algorithm) {
+    case 'force':
+      return forceLayout(doc, request.options);
+    case 'layered':
+      return layeredLayout(doc, request.options);
+  }
+};
@@ -0,0 +1,123 @@
+import type { GraphDocument } from '../types';
+import { nodeCenter, nodeSize, type Positions } from './common';
+
+export type ForceLayoutOptions = {
+  // Желаемая длина связи в пикселях
+  springLength?: number;
+  // Жёсткость пружин относительно отталкивания: больше — плотнее
+  strength?: number;
+  iterations?: number;
+};
+
+const DEFAULTS: Required<ForceLayoutOptions> = {
+  springLength: 200,
+  strength: 1,
+  iterations: 300,
+};
+
+// Притяжение к центру растёт с расстоянием и вместе с отталкиванием k²/d
+// удерживает граф в круге радиусом порядка k·√n, сколько раз ни раскладывай
+const GRAVITY = 1;
+const TEMPERATURE_SCALE = 0.25;
+
+/**
+ * Раскладка Фрюхтермана — Рейнгольда: связи работают как пружины, все узлы
+ * попарно отталкиваются и притягиваются к общему центру масс, шаг ограничен
+ * «температурой», которая линейно остывает. Закреплённые узлы остаются
+ * на месте и притягивают к себе соседей.
+ */
+export const forceLayout = (doc: GraphDocument, options: ForceLayoutOptions = {}): Positions => {
+  const { springLength: k, strength, iterations } = { ...DEFAULTS, ...options };
+  const nodes = doc.nodes;
+  const count = nodes.length;
+  const result: Positions = new Map();
+  if (count === 0) return result;
+
+  const indexById = new Map(nodes.map((n, i) => [n.id, i]));
+  const xs = nodes.map(n => nodeCenter(n).x);
+  const ys = nodes.map(n => nodeCenter(n).y);
+  const fixed = nodes.map(n => !!n.pinned);
+  const springs = doc.edges
+    .map(e => [indexById.get(e.from), indexById.get(e.to)] as const)
+    .filter((pair): pair is readonly [number, number] =>
+      pair[0] !== undefined && pair[1] !== undefined && pair[0] !== pair[1]
+    );
+
+  const movable = nodes.map((_, i) => i).filter(i => !fixed[i]);
+  const centroid = (axis: number[]) => movable.reduce((sum, i) => sum + axis[i], 0) / movable.length;
+  const startX = centroid(xs);
+  const startY = centroid(ys);
+
+  // Совпадающие узлы разводятся детерминированно, чтобы раскладка была воспроизводимой
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (xs[i] === xs[j] && ys[i] === ys[j] && !fixed[j]) {
+        xs[j] += Math.cos(j) * k * 0.1;
+        ys[j] += Math.sin(j) * k * 0.1;
+      }
+    }
+  }
+
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+  // Шаг поначалу сравним с размером итоговой раскладки, которая растёт как корень из числа узлов
+  const initialTemperature = k * Math.sqrt(count) * TEMPERATURE_SCALE;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const temperature = initialTemperature * (1 - iter / iterations);
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const vx = xs[i] - xs[j];
+        const vy = ys[i] - ys[j];
+        const dist = Math.max(Math.hypot(vx, vy), 1);
+        const force = (k * k) / dist;
+        dx[i] += (vx / dist) * force;
+        dy[i] += (vy / dist) * force;
+        dx[j] -= (vx / dist) * force;
+        dy[j] -= (vy / dist) * force;
+      }
+    }
+
+    for (const [a, b] of springs) {
+      const vx = xs[a] - xs[b];
+      const vy = ys[a] - ys[b];
+      const dist = Math.max(Math.hypot(vx, vy), 1);
+      const force = (strength * dist * dist) / k;
+      dx[a] -= (vx / dist) * force;
+      dy[a] -= (vy / dist) * force;
+      dx[b] += (vx / dist) * force;
+      dy[b] += (vy / dist) * force;
+    }
+
+    // Без притяжения к центру несвязанные узлы и компоненты разлетаются
+    const cx = xs.reduce((sum, x) => sum + x, 0) / count;
+    const cy = ys.reduce((sum, y) => sum + y, 0) / count;
+    for (const i of movable) {
+      dx[i] -= (xs[i] - cx) * GRAVITY;
+      dy[i] -= (ys[i] - cy) * GRAVITY;
+    }
+
+    for (const i of movable) {
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * step;
+      ys[i] += (dy[i] / length) * step;
+    }
+  }
+
+  // Без закреплённых узлов граф возвращается на прежнее место холста
+  const shiftX = fixed.some(Boolean) ? 0 : startX - centroid(xs);
+  const shiftY = fixed.some(Boolean) ? 0 : startY - centroid(ys);
+
+  nodes.forEach((node, i) => {
+    const { width, height } = nodeSize(node);
+    result.set(node.id, fixed[i]
+      ? { x: node.x, y: node.y }
+      : { x: xs[i] + shiftX - width / 2, y: ys[i] + shiftY - height / 2 });
+  });
+  return result;
+};
@@ -0,0 +1,4 @@
+export * from './common';
+export * from './force';
+export * from './layered';
+export * from './compute';
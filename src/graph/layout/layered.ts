@@ -0,0 +1,250 @@
+import { PRIMARY_RELATION } from '../relations';
+import type { GraphDocument } from '../types';
+import { nodeSize, type Positions } from './common';
+
+export type LayeredOrientation = 'top-down' | 'left-right';
+
+export type LayeredLayoutOptions = {
+  orientation?: LayeredOrientation;
+  // Расстояние между слоями и между соседями в слое, между краями карточек
+  layerGap?: number;
+  nodeGap?: number;
+  sweeps?: number;
+};
+
+const DEFAULTS: Required<LayeredLayoutOptions> = {
+  orientation: 'top-down',
+  layerGap: 80,
+  nodeGap: 40,
+  sweeps: 12,
+};
+
+type Vertex = { id: string; dummy: boolean };
+
+// Обратные рёбра DFS разворачиваются, после чего граф ацикличен
+const breakCycles = (ids: string[], edges: [string, string][]) => {
+  const outgoing = new Map(ids.map(id => [id, [] as string[]]));
+  for (const [from, to] of edges) outgoing.get(from)!.push(to);
+
+  const state = new Map<string, 'active' | 'done'>();
+  const reversed = new Set<string>();
+  const visit = (start: string) => {
+    const stack: [string, number][] = [[start, 0]];
+    state.set(start, 'active');
+    while (stack.length) {
+      const top = stack[stack.length - 1];
+      const next = outgoing.get(top[0])![top[1]++];
+      if (next === undefined) {
+        state.set(top[0], 'done');
+        stack.pop();
+      } else if (state.get(next) === 'active') {
+        reversed.add(`${top[0]}\u0000${next}`);
+      } else if (!state.has(next)) {
+        state.set(next, 'active');
+        stack.push([next, 0]);
+      }
+    }
+  };
+  for (const id of ids) if (!state.has(id)) visit(id);
+
+  return edges.map(([from, to]): [string, string] =>
+    reversed.has(`${from}\u0000${to}`) ? [to, from] : [from, to]
+  );
+};
+
+// Слой узла — длина самого длинного пути до него от источника
+const assignLayers = (ids: string[], edges: [string, string][]) => {
+  const incoming = new Map(ids.map(id => [id, [] as string[]]));
+  const outgoing = new Map(ids.map(id => [id, [] as string[]]));
+  for (const [from, to] of edges) {
+    outgoing.get(from)!.push(to);
+    incoming.get(to)!.push(from);
+  }
+
+  const layer = new Map<string, number>();
+  const pending = new Map(ids.map(id => [id, incoming.get(id)!.length]));
+  const queue = ids.filter(id => pending.get(id) === 0);
+  for (const id of queue) layer.set(id, 0);
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const next of outgoing.get(id)!) {
+      layer.set(next, Math.max(layer.get(next) ?? 0, layer.get(id)! + 1));
+      pending.set(next, pending.get(next)! - 1);
+      if (pending.get(next) === 0) queue.push(next);
+    }
+  }
+  return layer;
+};
+
+const countCrossings = (upper: Vertex[], lower: Vertex[], links: Map<string, string[]>) => {
+  const position = new Map(lower.map((v, i) => [v.id, i]));
+  const pairs: [number, number][] = [];
+  upper.forEach((v, i) => {
+    for (const target of links.get(v.id) ?? []) {
+      if (position.has(target)) pairs.push([i, position.get(target)!]);
+    }
+  });
+  let crossings = 0;
+  for (let a = 0; a < pairs.length; a++) {
+    for (let b = a + 1; b < pairs.length; b++) {
+      if ((pairs[a][0] - pairs[b][0]) * (pairs[a][1] - pairs[b][1]) < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+const totalCrossings = (layers: Vertex[][], down: Map<string, string[]>) =>
+  layers.slice(1).reduce((sum, layer, i) => sum + countCrossings(layers[i], layer, down), 0);
+
+// Барицентрический метод: узлы слоя сортируются по среднему положению соседей
+const orderByBarycenter = (layer: Vertex[], fixed: Vertex[], links: Map<string, string[]>) => {
+  const position = new Map(fixed.map((v, i) => [v.id, i]));
+  const weight = (v: Vertex, index: number) => {
+    const neighbors = (links.get(v.id) ?? []).filter(id => position.has(id));
+    if (neighbors.length === 0) return index;
+    return neighbors.reduce((sum, id) => sum + position.get(id)!, 0) / neighbors.length;
+  };
+  return layer
+    .map((v, i) => ({ v, w: weight(v, i), i }))
+    .sort((a, b) => a.w - b.w || a.i - b.i)
+    .map(item => item.v);
+};
+
+const minimizeCrossings = (
+  layers: Vertex[][],
+  down: Map<string, string[]>,
+  up: Map<string, string[]>,
+  sweeps: number
+) => {
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = totalCrossings(best, down);
+  let current = best;
+
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    current = current.map(layer => [...layer]);
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < current.length; i++) current[i] = orderByBarycenter(current[i], current[i - 1], up);
+    } else {
+      for (let i = current.length - 2; i >= 0; i--) current[i] = orderByBarycenter(current[i], current[i + 1], down);
+    }
+    const crossings = totalCrossings(current, down);
+    if (crossings < bestCrossings) {
+      best = current;
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+};
+
+// Узлы тянутся к среднему положению соседей, не нарушая порядок и зазоры в слое
+const assignCoordinates = (
+  layers: Vertex[][],
+  down: Map<string, string[]>,
+  up: Map<string, string[]>,
+  spacing: number
+) => {
+  const coord = new Map<string, number>();
+  for (const layer of layers) {
+    layer.forEach((v, i) => coord.set(v.id, (i - (layer.length - 1) / 2) * spacing));
+  }
+
+  const relax = (layer: Vertex[], links: Map<string, string[]>) => {
+    const desired = layer.map(v => {
+      const neighbors = links.get(v.id) ?? [];
+      if (neighbors.length === 0) return coord.get(v.id)!;
+      return neighbors.reduce((sum, id) => sum + coord.get(id)!, 0) / neighbors.length;
+    });
+    const placed = [...desired];
+    for (let i = 1; i < placed.length; i++) placed[i] = Math.max(placed[i], placed[i - 1] + spacing);
+    // Сдвиг возвращает слой к среднему желаемому положению
+    const shift = desired.reduce((s, d, i) => s + d - placed[i], 0) / Math.max(placed.length, 1);
+    layer.forEach((v, i) => coord.set(v.id, placed[i] + shift));
+  };
+
+  for (let pass = 0; pass < 4; pass++) {
+    for (let i = 1; i < layers.length; i++) relax(layers[i], up);
+    for (let i = layers.length - 2; i >= 0; i--) relax(layers[i], down);
+  }
+  return coord;
+};
+
+/**
+ * Послойная раскладка Сугиямы по основным (primary) связям: разрыв циклов,
+ * назначение слоёв, минимизация пересечений и расчёт координат.
+ * Связи-псевдонимы не влияют на иерархию.
+ */
+export const layeredLayout = (doc: GraphDocument, options: LayeredLayoutOptions = {}): Positions => {
+  const { orientation, layerGap, nodeGap, sweeps } = { ...DEFAULTS, ...options };
+  const result: Positions = new Map();
+  if (doc.nodes.length === 0) return result;
+
+  const ids = doc.nodes.map(n => n.id);
+  const known = new Set(ids);
+  const seen = new Set<string>();
+  const structural: [string, string][] = [];
+  for (const edge of doc.edges) {
+    const key = `${edge.from}\u0000${edge.to}`;
+    if (edge.type !== PRIMARY_RELATION || edge.from === edge.to || seen.has(key)) continue;
+    if (!known.has(edge.from) || !known.has(edge.to)) continue;
+    seen.add(key);
+    structural.push([edge.from, edge.to]);
+  }
+
+  const acyclic = breakCycles(ids, structural);
+  const layerOf = assignLayers(ids, acyclic);
+
+  // Длинные связи разбиваются фиктивными узлами, по одному на каждый пропущенный слой
+  const layerCount = Math.max(...layerOf.values()) + 1;
+  const layers: Vertex[][] = Array.from({ length: layerCount }, () => []);
+  for (const id of ids) layers[layerOf.get(id)!].push({ id, dummy: false });
+
+  const down = new Map<string, string[]>();
+  const up = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    if (!down.has(from)) down.set(from, []);
+    if (!up.has(to)) up.set(to, []);
+    down.get(from)!.push(to);
+    up.get(to)!.push(from);
+  };
+
+  let dummyCount = 0;
+  for (const [from, to] of acyclic) {
+    let previous = from;
+    for (let layer = layerOf.get(from)! + 1; layer < layerOf.get(to)!; layer++) {
+      const dummy = `\u0000dummy${dummyCount++}`;
+      layers[layer].push({ id: dummy, dummy: true });
+      link(previous, dummy);
+      previous = dummy;
+    }
+    link(previous, to);
+  }
+
+  // Слои и позиции в слое рассчитаны на самую крупную карточку графа
+  const horizontal = orientation === 'left-right';
+  const sizes = doc.nodes.map(nodeSize);
+  const maxWidth = Math.max(...sizes.map(s => s.width));
+  const maxHeight = Math.max(...sizes.map(s => s.height));
+  const crossSize = horizontal ? maxHeight : maxWidth;
+  const layerSize = horizontal ? maxWidth : maxHeight;
+
+  const ordered = minimizeCrossings(layers, down, up, sweeps);
+  const cross = assignCoordinates(ordered, down, up, crossSize + nodeGap);
+
+  // Раскладка привязывается к левому верхнему углу текущего графа
+  const originX = Math.min(...doc.nodes.map(n => n.x));
+  const originY = Math.min(...doc.nodes.map(n => n.y));
+  const minCross = Math.min(...ids.map(id => cross.get(id)!));
+
+  for (const node of doc.nodes) {
+    if (node.pinned) {
+      result.set(node.id, { x: node.x, y: node.y });
+      continue;
+    }
+    const along = layerOf.get(node.id)! * (layerSize + layerGap);
+    const across = cross.get(node.id)! - minCross;
+    result.set(node.id, horizontal
+      ? { x: originX + along, y: originY + across }
+      : { x: originX + across, y: originY + along });
+  }
+  return result;
+};
@@ -0,0 +1,69 @@
+import { indexGraph, neighborIds } from './adjacency';
+import { nodeTitle } from './wiki';
+import type { EdgeKind, EdgeType, GraphDocument, NodeType } from './types';
+
+export type EdgeGroup = { type: EdgeKind; edges: EdgeType[] };
+
+export type SecondHop = { node: NodeType; via: NodeType[] };
+
+export type Neighborhood = {
+  outgoing: EdgeGroup[];
+  incoming: EdgeGroup[];
+  // Узлы, в тексте которых упоминается заголовок, но связи с ними нет
+  mentions: NodeType[];
+  secondHop: SecondHop[];
+};
+
+// Короткие заголовки вроде «А» встречаются в тексте случайно
+const MIN_MENTION_LENGTH = 3;
+
+// Группы идут в порядке реестра типов, связи неизвестного типа — в конце
+const groupByType = (doc: GraphDocument, edges: readonly EdgeType[]): EdgeGroup[] => {
+  const order = new Map(doc.relationTypes.map((t, i) => [t.id, i]));
+  const groups = new Map<EdgeKind, EdgeType[]>();
+  for (const edge of edges) {
+    if (!groups.has(edge.type)) groups.set(edge.type, []);
+    groups.get(edge.type)!.push(edge);
+  }
+  return [...groups]
+    .map(([type, grouped]) => ({ type, edges: grouped }))
+    .sort((a, b) => (order.get(a.type) ?? Infinity) - (order.get(b.type) ?? Infinity));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Заголовок ищется целым словом и без учёта регистра
+const mentionPattern = (title: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(title).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+
+export const describeNeighborhood = (doc: GraphDocument, nodeId: string): Neighborhood => {
+  const { nodeById, outgoing, incoming } = indexGraph(doc);
+  const node = nodeById.get(nodeId);
+  const neighbors = neighborIds(doc, nodeId);
+
+  const title = node ? nodeTitle(node) : '';
+  const pattern = title.length >= MIN_MENTION_LENGTH ? mentionPattern(title) : null;
+  const mentions = pattern
+    ? doc.nodes.filter(n => n.id !== nodeId && !neighbors.has(n.id) && pattern.test(n.text))
+    : [];
+
+  const secondHop = new Map<string, SecondHop>();
+  for (const neighborId of neighbors) {
+    const via = nodeById.get(neighborId);
+    if (!via) continue;
+    for (const id of neighborIds(doc, neighborId)) {
+      const next = nodeById.get(id);
+      if (!next || id === nodeId || neighbors.has(id)) continue;
+      if (!secondHop.has(id)) secondHop.set(id, { node: next, via: [] });
+      secondHop.get(id)!.via.push(via);
+    }
+  }
+
+  return {
+    outgoing: groupByType(doc, outgoing.get(nodeId) ?? []),
+    // Петля уже попала в исходящие
+    incoming: groupByType(doc, (incoming.get(nodeId) ?? []).filter(e => e.from !== nodeId)),
+    mentions,
+    secondHop: [...secondHop.values()],
+  };
+};
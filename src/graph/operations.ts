@@ -0,0 +1,118 @@
+import { createId } from './document';
+import { edgesOf } from './adjacency';
+import type { GraphCommand, GraphDocument, GraphPatch, NodeType, EdgeType, RelationType } from './types';
+
+export type NodeChanges = Partial<Omit<NodeType, 'id'>>;
+export type EdgeChanges = Partial<Omit<EdgeType, 'id'>>;
+export type RelationTypeChanges = Partial<Omit<RelationType, 'id'>>;
+
+const pick = <T extends object>(source: T, keys: (keyof T)[]) =>
+  Object.fromEntries(keys.map(k => [k, source[k]])) as Partial<T>;
+
+const patchFor = <T extends { id: string }>(item: T, changes: Partial<T>): GraphPatch<T> => ({
+  id: item.id,
+  before: pick(item, Object.keys(changes) as (keyof T)[]),
+  after: changes,
+});
+
+export const insertNodes = (
+  nodes: NodeType[],
+  edges: EdgeType[] = [],
+  relationTypes: RelationType[] = []
+): GraphCommand => ({
+  type: 'insert',
+  nodes,
+  edges,
+  relationTypes,
+});
+
+export const createNode = (text: string, x: number, y: number): NodeType => ({
+  id: createId(),
+  text,
+  x,
+  y,
+});
+
+// Удаление узлов каскадно удаляет все связи, которые на них ссылаются
+export const removeNodes = (doc: GraphDocument, ids: Iterable<string>): GraphCommand => {
+  const nodeIds = new Set(ids);
+  const edges = new Map<string, EdgeType>();
+  for (const id of nodeIds) {
+    for (const edge of edgesOf(doc, id)) edges.set(edge.id, edge);
+  }
+  return {
+    type: 'remove',
+    nodes: doc.nodes.filter(n => nodeIds.has(n.id)),
+    edges: [...edges.values()],
+  };
+};
+
+export const updateNodes = (
+  doc: GraphDocument,
+  changes: ReadonlyMap<string, NodeChanges>
+): GraphCommand => ({
+  type: 'update',
+  nodes: doc.nodes.filter(n => changes.has(n.id)).map(n => patchFor<NodeType>(n, changes.get(n.id)!)),
+  edges: [],
+});
+
+export const updateNode = (doc: GraphDocument, id: string, changes: NodeChanges) =>
+  updateNodes(doc, new Map([[id, changes]]));
+
+export const connect = (from: string, to: string, type: EdgeType['type']): GraphCommand => ({
+  type: 'insert',
+  nodes: [],
+  edges: [{ id: createId(), from, to, type }],
+});
+
+export const removeEdges = (doc: GraphDocument, ids: Iterable<string>): GraphCommand => {
+  const edgeIds = new Set(ids);
+  return { type: 'remove', nodes: [], edges: doc.edges.filter(e => edgeIds.has(e.id)) };
+};
+
+export const updateEdges = (
+  doc: GraphDocument,
+  changes: ReadonlyMap<string, EdgeChanges>
+): GraphCommand => ({
+  type: 'update',
+  nodes: [],
+  edges: doc.edges.filter(e => changes.has(e.id)).map(e => patchFor<EdgeType>(e, changes.get(e.id)!)),
+});
+
+export const updateEdge = (doc: GraphDocument, id: string, changes: EdgeChanges) =>
+  updateEdges(doc, new Map([[id, changes]]));
+
+export const reverseEdge = (doc: GraphDocument, edge: EdgeType) =>
+  updateEdge(doc, edge.id, { from: edge.to, to: edge.from });
+
+export const createRelationType = (name: string, color: string): RelationType => ({
+  id: createId(),
+  name,
+  color,
+  dash: 'solid',
+  arrowhead: 'triangle',
+  directed: true,
+});
+
+export const insertRelationType = (type: RelationType): GraphCommand => insertNodes([], [], [type]);
+
+export const updateRelationType = (
+  doc: GraphDocument,
+  id: string,
+  changes: RelationTypeChanges
+): GraphCommand => ({
+  type: 'update',
+  nodes: [],
+  edges: [],
+  relationTypes: doc.relationTypes
+    .filter(t => t.id === id)
+    .map(t => patchFor<RelationType>(t, changes)),
+});
+
+// Тип удаляется вместе со всеми связями этого типа, одной отменяемой командой
+export const removeRelationType = (doc: GraphDocument, id: string): GraphCommand => ({
+  type: 'remove',
+  nodes: [],
+  edges: doc.edges.filter(e => e.type === id),
+  relationTypes: doc.relationTypes.filter(t => t.id === id),
+});
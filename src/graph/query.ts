@@ -0,0 +1,36 @@
+import { nodeSize } from './layout/common';
+import type { GraphDocument } from './types';
+
+// Связь видна, только если видны оба её конца
+export const filterDocument = (doc: GraphDocument, query: string): GraphDocument => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return doc;
+
+  const nodes = doc.nodes.filter(n => n.text.toLowerCase().includes(needle));
+  const visible = new Set(nodes.map(n => n.id));
+  const edges = doc.edges.filter(e => visible.has(e.from) && visible.has(e.to));
+  return { ...doc, nodes, edges };
+};
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export const normalizeRect = (a: { x: number; y: number }, b: { x: number; y: number }): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+// Узел попадает в рамку, если его карточка хотя бы частично её пересекает
+export const nodesInRect = (doc: GraphDocument, rect: Rect) =>
+  doc.nodes
+    .filter(n => {
+      const { width, height } = nodeSize(n);
+      return (
+        n.x < rect.x + rect.width &&
+        n.x + width > rect.x &&
+        n.y < rect.y + rect.height &&
+        n.y + height > rect.y
+      );
+    })
+    .map(n => n.id);
@@ -0,0 +1,22 @@
+import type { GraphDocument, RelationType } from './types';
+
+export const PRIMARY_RELATION = 'primary';
+export const ALIAS_RELATION = 'alias';
+// Связи этого типа выводятся из [[ссылок]] в тексте узлов и вручную не создаются
+export const WIKI_RELATION = 'wiki';
+
+export const DEFAULT_RELATION_TYPES: readonly RelationType[] = [
+  { id: PRIMARY_RELATION, name: 'Основная', color: '#9b87f5', dash: 'solid', arrowhead: 'triangle', directed: true },
+  { id: ALIAS_RELATION, name: 'Псевдоним', color: '#6b7280', dash: 'solid', arrowhead: 'triangle', directed: true },
+  { id: WIKI_RELATION, name: 'Вики-ссылка', color: '#0ea5e9', dash: 'dashed', arrowhead: 'open', directed: true },
+];
+
+// На встроенные типы опираются раскладка и импорт, поэтому их можно менять, но не удалять
+export const isBuiltinRelation = (id: string) =>
+  id === PRIMARY_RELATION || id === ALIAS_RELATION || id === WIKI_RELATION;
+
+export const relationUsage = (doc: GraphDocument) => {
+  const usage = new Map<string, number>();
+  for (const edge of doc.edges) usage.set(edge.type, (usage.get(edge.type) ?? 0) + 1);
+  return usage;
+};
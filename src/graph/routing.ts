@@ -0,0 +1,359 @@
+import { boundaryPoint, nodeBox, type Box, type Size } from './geometry';
+import type { EdgeType, GraphDocument, NodeType } from './types';
+
+export type Point = { x: number; y: number };
+
+export type EdgeRoute = {
+  // Данные для атрибута d элемента <path>
+  path: string;
+  // Середина маршрута — сюда ставится подпись
+  mid: Point;
+};
+
+// Расстояние между соседними параллельными связями
+const FAN_GAP = 24;
+// Зазор, с которым ортогональный маршрут обходит карточки
+const ROUTE_MARGIN = 14;
+// Штраф за поворот: из маршрутов близкой длины выбирается тот, где меньше изломов
+const BEND_PENALTY = 40;
+// Препятствия ищутся в рамке вокруг концов связи, расширенной на этот отступ
+const SEARCH_PADDING = 160;
+const SELF_LOOP_SIZE = 36;
+
+const centerOf = (box: Box): Point => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+const format = (value: number) => Math.round(value * 10) / 10;
+
+const pathOf = (command: string, points: Point[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : i === 1 ? command : ''} ${format(p.x)} ${format(p.y)}`).join(' ');
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+/**
+ * Смещения параллельных связей между одной парой узлов: связи раскладываются
+ * веером симметрично относительно прямой между центрами. Смещение задано
+ * в системе «от меньшего id к большему», поэтому встречные связи не накладываются.
+ */
+export const parallelOffsets = (edges: readonly EdgeType[]) => {
+  const groups = new Map<string, EdgeType[]>();
+  for (const edge of edges) {
+    const key = pairKey(edge.from, edge.to);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(edge);
+  }
+  const offsets = new Map<string, number>();
+  for (const group of groups.values()) {
+    group.forEach((edge, i) => offsets.set(edge.id, (i - (group.length - 1) / 2) * FAN_GAP));
+  }
+  return offsets;
+};
+
+// Единичная нормаль к прямой между центрами в канонической системе пары
+const pairNormal = (from: NodeType, to: NodeType, fromCenter: Point, toCenter: Point): Point => {
+  const [a, b] = from.id < to.id ? [fromCenter, toCenter] : [toCenter, fromCenter];
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  return { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+};
+
+const selfLoopRoute = (box: Box, index: number): EdgeRoute => {
+  const size = SELF_LOOP_SIZE + index * 18;
+  const start = { x: box.x + box.width * 0.75, y: box.y };
+  const end = { x: box.x + box.width, y: box.y + box.height * 0.25 };
+  const c1 = { x: start.x, y: start.y - size };
+  const c2 = { x: end.x + size, y: end.y };
+  return {
+    path: `M ${format(start.x)} ${format(start.y)} C ${format(c1.x)} ${format(c1.y)} ${format(c2.x)} ${format(c2.y)} ${format(end.x)} ${format(end.y)}`,
+    mid: { x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8, y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8 },
+  };
+};
+
+const straightRoute = (from: NodeType, to: NodeType, fromBox: Box, toBox: Box, offset: number): EdgeRoute => {
+  const fromCenter = centerOf(fromBox);
+  const toCenter = centerOf(toBox);
+  if (offset === 0) {
+    const start = boundaryPoint(from, fromBox, toCenter);
+    const end = boundaryPoint(to, toBox, fromCenter);
+    return { path: pathOf('L', [start, end]), mid: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 } };
+  }
+  // Смещённая прямая превращается в квадратичную дугу, вершина которой отстоит на offset
+  const normal = pairNormal(from, to, fromCenter, toCenter);
+  const control = {
+    x: (fromCenter.x + toCenter.x) / 2 + normal.x * offset * 2,
+    y: (fromCenter.y + toCenter.y) / 2 + normal.y * offset * 2,
+  };
+  const start = boundaryPoint(from, fromBox, control);
+  const end = boundaryPoint(to, toBox, control);
+  return {
+    path: pathOf('Q', [start, control, end]),
+    mid: { x: (start.x + 2 * control.x + end.x) / 4, y: (start.y + 2 * control.y + end.y) / 4 },
+  };
+};
+
+const bezierRoute = (from: NodeType, to: NodeType, fromBox: Box, toBox: Box, offset: number): EdgeRoute => {
+  const fromCenter = centerOf(fromBox);
+  const toCenter = centerOf(toBox);
+  const dx = toCenter.x - fromCenter.x;
+  const dy = toCenter.y - fromCenter.y;
+  const horizontal = Math.abs(dx) >= Math.abs(dy);
+  const reach = Math.max((horizontal ? Math.abs(dx) : Math.abs(dy)) / 2, 30);
+  const normal = pairNormal(from, to, fromCenter, toCenter);
+  // Сдвиг обеих опорных точек на 4/3 смещения сдвигает середину кривой ровно на offset
+  const shift = { x: normal.x * offset * 4 / 3, y: normal.y * offset * 4 / 3 };
+  const c1 = horizontal
+    ? { x: fromCenter.x + Math.sign(dx) * reach + shift.x, y: fromCenter.y + shift.y }
+    : { x: fromCenter.x + shift.x, y: fromCenter.y + Math.sign(dy) * reach + shift.y };
+  const c2 = horizontal
+    ? { x: toCenter.x - Math.sign(dx) * reach + shift.x, y: toCenter.y + shift.y }
+    : { x: toCenter.x + shift.x, y: toCenter.y - Math.sign(dy) * reach + shift.y };
+  const start = boundaryPoint(from, fromBox, c1);
+  const end = boundaryPoint(to, toBox, c2);
+  return {
+    path: pathOf('C', [start, c1, c2, end]),
+    mid: { x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8, y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8 },
+  };
+};
+
+const inflate = (box: Box, by: number): Box => ({
+  x: box.x - by,
+  y: box.y - by,
+  width: box.width + by * 2,
+  height: box.height + by * 2,
+});
+
+const strictlyInside = (p: Point, box: Box) =>
+  p.x > box.x && p.x < box.x + box.width && p.y > box.y && p.y < box.y + box.height;
+
+const intersects = (a: Box, b: Box) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+// Минимальная двоичная куча для A*
+class Heap {
+  private items: [number, number][] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(priority: number, value: number) {
+    const items = this.items;
+    items.push([priority, value]);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top[1];
+  }
+}
+
+const DIRECTIONS = [
+  { dx: 1, dy: 0 },
+  { dx: -1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: 0, dy: -1 },
+];
+
+/**
+ * Поиск ортогонального пути A* по разреженной сетке: линии сетки проходят
+ * по границам препятствий (с зазором) и через концы маршрута.
+ * Возвращает ломаную или null, если обойти препятствия не удалось.
+ */
+const findOrthogonalPath = (start: Point, end: Point, obstacles: Box[]): Point[] | null => {
+  const unique = (values: number[]) => [...new Set(values.map(format))].sort((a, b) => a - b);
+  const xs = unique([
+    start.x,
+    end.x,
+    (start.x + end.x) / 2,
+    ...obstacles.flatMap(b => [b.x, b.x + b.width]),
+  ]);
+  const ys = unique([
+    start.y,
+    end.y,
+    (start.y + end.y) / 2,
+    ...obstacles.flatMap(b => [b.y, b.y + b.height]),
+  ]);
+  const width = xs.length;
+  const blocked = (p: Point) => obstacles.some(box => strictlyInside(p, box));
+  const indexOf = (xi: number, yi: number) => yi * width + xi;
+
+  const startIndex = indexOf(xs.indexOf(format(start.x)), ys.indexOf(format(start.y)));
+  const endIndex = indexOf(xs.indexOf(format(end.x)), ys.indexOf(format(end.y)));
+  const heuristic = (xi: number, yi: number) => Math.abs(xs[xi] - end.x) + Math.abs(ys[yi] - end.y);
+
+  // Состояние — точка сетки и направление, которым в неё пришли
+  const stateOf = (index: number, direction: number) => index * 4 + direction;
+  const cost = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const heap = new Heap();
+  for (let d = 0; d < 4; d++) {
+    const state = stateOf(startIndex, d);
+    cost.set(state, 0);
+    heap.push(heuristic(startIndex % width, Math.floor(startIndex / width)), state);
+  }
+
+  while (heap.size > 0) {
+    const state = heap.pop();
+    const index = Math.floor(state / 4);
+    const direction = state % 4;
+    if (index === endIndex) {
+      const points: Point[] = [];
+      for (let s: number | undefined = state; s !== undefined; s = previous.get(s)) {
+        const i = Math.floor(s / 4);
+        points.unshift({ x: xs[i % width], y: ys[Math.floor(i / width)] });
+      }
+      return points;
+    }
+    const xi = index % width;
+    const yi = Math.floor(index / width);
+    const current = cost.get(state)!;
+
+    DIRECTIONS.forEach(({ dx, dy }, nextDirection) => {
+      const nx = xi + dx;
+      const ny = yi + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= ys.length) return;
+      const point = { x: xs[nx], y: ys[ny] };
+      // Между соседними линиями сетки нет границ препятствий, поэтому достаточно проверить середину
+      const middle = { x: (xs[xi] + point.x) / 2, y: (ys[yi] + point.y) / 2 };
+      if (blocked(point) || blocked(middle)) return;
+      const step = Math.abs(point.x - xs[xi]) + Math.abs(point.y - ys[yi]);
+      const bend = nextDirection !== direction && index !== startIndex ? BEND_PENALTY : 0;
+      const nextState = stateOf(indexOf(nx, ny), nextDirection);
+      const nextCost = current + step + bend;
+      if (nextCost >= (cost.get(nextState) ?? Infinity)) return;
+      cost.set(nextState, nextCost);
+      previous.set(nextState, state);
+      heap.push(nextCost + heuristic(nx, ny), nextState);
+    });
+  }
+  return null;
+};
+
+const simplify = (points: Point[]) =>
+  points.filter((p, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const prev = points[i - 1];
+    const next = points[i + 1];
+    return !((prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y));
+  });
+
+const polylineMidpoint = (points: Point[]): Point => {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i]) {
+      const t = lengths[i] ? remaining / lengths[i] : 0;
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t,
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[0];
+};
+
+const orthogonalRoute = (fromBox: Box, toBox: Box, offset: number, others: Box[]): EdgeRoute => {
+  const fromCenter = centerOf(fromBox);
+  const toCenter = centerOf(toBox);
+  const dx = toCenter.x - fromCenter.x;
+  const dy = toCenter.y - fromCenter.y;
+  const horizontal = Math.abs(dx) >= Math.abs(dy);
+
+  // Порты — середины обращённых друг к другу сторон; параллельные связи сдвигаются вдоль стороны
+  const port = (box: Box, center: Point, sign: number): Point =>
+    horizontal
+      ? { x: sign > 0 ? box.x + box.width : box.x, y: center.y + offset }
+      : { x: center.x + offset, y: sign > 0 ? box.y + box.height : box.y };
+  const start = port(fromBox, fromCenter, horizontal ? Math.sign(dx) || 1 : Math.sign(dy) || 1);
+  const end = port(toBox, toCenter, horizontal ? -(Math.sign(dx) || 1) : -(Math.sign(dy) || 1));
+  const stub = (p: Point, sign: number): Point =>
+    horizontal ? { x: p.x + sign * ROUTE_MARGIN, y: p.y } : { x: p.x, y: p.y + sign * ROUTE_MARGIN };
+  const startStub = stub(start, horizontal ? Math.sign(dx) || 1 : Math.sign(dy) || 1);
+  const endStub = stub(end, horizontal ? -(Math.sign(dx) || 1) : -(Math.sign(dy) || 1));
+
+  const area = inflate(
+    {
+      x: Math.min(fromBox.x, toBox.x),
+      y: Math.min(fromBox.y, toBox.y),
+      width: Math.max(fromBox.x + fromBox.width, toBox.x + toBox.width) - Math.min(fromBox.x, toBox.x),
+      height: Math.max(fromBox.y + fromBox.height, toBox.y + toBox.height) - Math.min(fromBox.y, toBox.y),
+    },
+    SEARCH_PADDING
+  );
+  const obstacles = [fromBox, toBox, ...others.filter(box => intersects(box, area))]
+    .map(box => inflate(box, ROUTE_MARGIN - 1))
+    .filter(box => !strictlyInside(startStub, box) && !strictlyInside(endStub, box));
+
+  // Без обходного пути — простая ступенька через середину
+  const fallback = horizontal
+    ? [startStub, { x: (startStub.x + endStub.x) / 2, y: startStub.y }, { x: (startStub.x + endStub.x) / 2, y: endStub.y }, endStub]
+    : [startStub, { x: startStub.x, y: (startStub.y + endStub.y) / 2 }, { x: endStub.x, y: (startStub.y + endStub.y) / 2 }, endStub];
+  const middle = findOrthogonalPath(startStub, endStub, obstacles) ?? fallback;
+  const points = simplify([start, ...middle, end]);
+  return { path: pathOf('L', points), mid: polylineMidpoint(points) };
+};
+
+/**
+ * Маршруты всех связей документа. Связи с одинаковой парой концов расходятся
+ * веером, петли рисуются над правым верхним углом узла.
+ */
+export const routeEdges = (doc: GraphDocument, sizes?: ReadonlyMap<string, Size>) => {
+  const boxes = new Map(doc.nodes.map(n => [n.id, nodeBox(n, sizes?.get(n.id))]));
+  const nodes = new Map(doc.nodes.map(n => [n.id, n]));
+  const offsets = parallelOffsets(doc.edges.filter(e => e.from !== e.to));
+  const loops = new Map<string, number>();
+  const routes = new Map<string, EdgeRoute>();
+
+  for (const edge of doc.edges) {
+    const from = nodes.get(edge.from);
+    const to = nodes.get(edge.to);
+    if (!from || !to) continue;
+    const fromBox = boxes.get(from.id)!;
+    const toBox = boxes.get(to.id)!;
+
+    if (from.id === to.id) {
+      const index = loops.get(from.id) ?? 0;
+      loops.set(from.id, index + 1);
+      routes.set(edge.id, selfLoopRoute(fromBox, index));
+      continue;
+    }
+
+    const offset = offsets.get(edge.id) ?? 0;
+    switch (edge.routing ?? 'straight') {
+      case 'straight':
+        routes.set(edge.id, straightRoute(from, to, fromBox, toBox, offset));
+        break;
+      case 'bezier':
+        routes.set(edge.id, bezierRoute(from, to, fromBox, toBox, offset));
+        break;
+      case 'orthogonal': {
+        const others = doc.nodes.filter(n => n.id !== from.id && n.id !== to.id).map(n => boxes.get(n.id)!);
+        routes.set(edge.id, orthogonalRoute(fromBox, toBox, offset, others));
+        break;
+      }
+    }
+  }
+  return routes;
+};
@@ -0,0 +1,81 @@
+// Группа — рамка с заголовком, которая рисуется под остальными узлами
+export type NodeShape = 'rectangle' | 'rounded' | 'ellipse' | 'diamond' | 'sticky' | 'group';
+
+export type NodeType = {
+  id: string;
+  text: string;
+  x: number;
+  y: number;
+  // Закреплённые узлы не двигаются при автоматической раскладке
+  pinned?: boolean;
+  // Незаданное оформление берётся из темы, размер — из NODE_WIDTH и NODE_HEIGHT
+  shape?: NodeShape;
+  fill?: string;
+  border?: string;
+  width?: number;
+  height?: number;
+  // Атрибуты из GraphML и GEXF, которым нет места в редакторе (вес, сообщество…), хранятся как есть
+  attributes?: Record<string, string>;
+};
+
+// Идентификатор типа связи из реестра документа
+export type EdgeKind = string;
+
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+
+export type ArrowheadStyle = 'triangle' | 'open' | 'diamond' | 'circle';
+
+export type RelationType = {
+  id: string;
+  name: string;
+  color: string;
+  dash: DashStyle;
+  arrowhead: ArrowheadStyle;
+  // Ненаправленные связи рисуются без стрелки
+  directed: boolean;
+};
+
+export type EdgeRouting = 'straight' | 'bezier' | 'orthogonal';
+
+export type EdgeType = {
+  id: string;
+  from: string;
+  to: string;
+  type: EdgeKind;
+  // Подпись выводится посередине линии, заметки видны только в инспекторе
+  label?: string;
+  notes?: string;
+  // По умолчанию связь рисуется прямой
+  routing?: EdgeRouting;
+  attributes?: Record<string, string>;
+};
+
+export type GraphDocument = Readonly<{
+  nodes: readonly NodeType[];
+  edges: readonly EdgeType[];
+  relationTypes: readonly RelationType[];
+}>;
+
+export type GraphPatch<T> = {
+  id: string;
+  before: Partial<T>;
+  after: Partial<T>;
+};
+
+// Типы связей меняются редко, поэтому поле необязательно
+export type GraphCommand =
+  | { type: 'insert'; nodes: NodeType[]; edges: EdgeType[]; relationTypes?: RelationType[] }
+  | { type: 'remove'; nodes: NodeType[]; edges: EdgeType[]; relationTypes?: RelationType[] }
+  | {
+      type: 'update';
+      nodes: GraphPatch<NodeType>[];
+      edges: GraphPatch<EdgeType>[];
+      relationTypes?: GraphPatch<RelationType>[];
+    }
+  // Несколько команд, которые применяются и отменяются как одна
+  | { type: 'batch'; commands: GraphCommand[] };
+
+export type Viewport = {
+  pan: { x: number; y: number };
+  zoom: number;
+};
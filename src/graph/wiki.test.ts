@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { applyCommand, invertCommand, isEmptyCommand } from './commands';
+import { DEFAULT_RELATION_TYPES, PRIMARY_RELATION, WIKI_RELATION } from './relations';
+import type { GraphDocument, NodeType } from './types';
+import { syncWikiLinks, withWikiLinks } from './wiki';
+
+const node = (id: string, text: string): NodeType => ({ id, text, x: 0, y: 0 });
+
+const base: GraphDocument = {
+  nodes: [node('a', 'Идея [[Задача]] и [[Идея]]'), node('b', '# Задача'), node('c', 'Заметка')],
+  edges: [
+    { id: 'p1', from: 'a', to: 'b', type: PRIMARY_RELATION },
+    { id: 'p2', from: 'c', to: 'a', type: PRIMARY_RELATION, label: 'вручную' },
+  ],
+  relationTypes: DEFAULT_RELATION_TYPES,
+};
+
+const doc = applyCommand(base, syncWikiLinks(base));
+
+const links = (graph: GraphDocument) =>
+  graph.edges.filter(e => e.type === WIKI_RELATION).map(e => `${e.from}->${e.to}`).sort();
+
+const setText = (graph: GraphDocument, id: string, text: string) => {
+  const command = withWikiLinks(graph, {
+    type: 'update',
+    nodes: [{ id, before: { text: graph.nodes.find(n => n.id === id)!.text }, after: { text } }],
+    edges: [],
+  });
+  return { command, next: applyCommand(graph, command) };
+};
+
+const userEdges = (graph: GraphDocument) => graph.edges.filter(e => e.type !== WIKI_RELATION);
+
+describe('вики-связи', () => {
+  it('создаются по ссылкам на заголовки, ссылка на себя пропускается', () => {
+    expect(links(doc)).toEqual(['a->b']);
+    expect(userEdges(doc)).toEqual(base.edges);
+  });
+
+  it('добавляются и удаляются вместе с текстом, не трогая связи пользователя', () => {
+    const { next } = setText(doc, 'a', 'Идея [[заметка]]');
+    expect(links(next)).toEqual(['a->c']);
+    expect(userEdges(next)).toEqual(base.edges);
+    expect(links(setText(next, 'a', 'Идея').next)).toEqual([]);
+  });
+
+  it('следуют за переименованием узлов', () => {
+    const renamed = setText(doc, 'b', 'Дело').next;
+    expect(links(renamed)).toEqual([]);
+    const { command, next } = setText(renamed, 'c', 'Задача');
+    expect(links(next)).toEqual(['a->c']);
+    expect(userEdges(next)).toEqual(base.edges);
+    expect(applyCommand(next, invertCommand(command))).toEqual(renamed);
+  });
+
+  it('сохраняют существующую связь и пропускают лишнее', () => {
+    const edge = doc.edges.find(e => e.type === WIKI_RELATION)!;
+    const labelled: GraphDocument = {
+      ...doc,
+      edges: [...doc.edges.map(e => (e === edge ? { ...e, label: 'подпись' } : e)), { ...edge, id: 'copy' }],
+    };
+    const next = applyCommand(labelled, syncWikiLinks(labelled));
+    expect(next.edges.filter(e => e.type === WIKI_RELATION)).toEqual([{ ...edge, label: 'подпись' }]);
+    expect(isEmptyCommand(syncWikiLinks(doc))).toBe(true);
+  });
+
+  it('добавляют тип вики-связи в документ, где его нет', () => {
+    const old: GraphDocument = { ...base, relationTypes: DEFAULT_RELATION_TYPES.filter(t => t.id !== WIKI_RELATION) };
+    const next = applyCommand(old, syncWikiLinks(old));
+    expect(next.relationTypes.map(t => t.id)).toContain(WIKI_RELATION);
+    expect(links(next)).toEqual(['a->b']);
+  });
+});
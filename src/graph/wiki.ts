@@ -0,0 +1,95 @@
+import { batchCommands, applyCommand } from './commands';
+import { createId } from './document';
+import { DEFAULT_RELATION_TYPES, WIKI_RELATION } from './relations';
+import type { EdgeType, GraphCommand, GraphDocument, NodeType } from './types';
+
+// [[Заголовок]] или [[Заголовок|подпись]]
+export const WIKI_LINK = /\[\[([^[\]\n]+)\]\]/g;
+
+const LINE_PREFIX = /^(#{1,6}\s+|>\s?|[-*+]\s+(\[[ xX]\]\s+)?|\d+[.)]\s+)/;
+
+export const parseWikiTarget = (inner: string) => {
+  const [target, label] = inner.split('|', 2);
+  return { target: target.trim(), label: (label ?? target).trim() };
+};
+
+// Заголовок узла — первая непустая строка текста без разметки Markdown
+export const nodeTitle = (node: NodeType) => {
+  const line = node.text.split('\n').find(l => l.trim()) ?? '';
+  return line
+    .trim()
+    .replace(LINE_PREFIX, '')
+    .replace(/[*_`]/g, '')
+    .trim();
+};
+
+// Заголовки сравниваются без учёта регистра и лишних пробелов
+export const titleKey = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const wikiTargets = (text: string) => {
+  const targets = new Set<string>();
+  for (const match of text.matchAll(WIKI_LINK)) {
+    const { target } = parseWikiTarget(match[1]);
+    if (target) targets.add(target);
+  }
+  return [...targets];
+};
+
+// При совпадении заголовков выигрывает узел, который раньше в документе
+export const titleIndex = (doc: GraphDocument) => {
+  const index = new Map<string, NodeType>();
+  for (const node of doc.nodes) {
+    const key = titleKey(nodeTitle(node));
+    if (key && !index.has(key)) index.set(key, node);
+  }
+  return index;
+};
+
+export const findNodeByTitle = (doc: GraphDocument, title: string) => titleIndex(doc).get(titleKey(title));
+
+/**
+ * Приводит производные связи в соответствие с текстом узлов: для каждой
+ * разрешимой [[ссылки]] должна быть ровно одна связь типа WIKI_RELATION.
+ * Уже существующие связи сохраняются вместе с подписью и маршрутом.
+ */
+export const syncWikiLinks = (doc: GraphDocument): GraphCommand => {
+  const index = titleIndex(doc);
+  const wanted = new Set<string>();
+  for (const node of doc.nodes) {
+    for (const target of wikiTargets(node.text)) {
+      const to = index.get(titleKey(target));
+      if (to && to.id !== node.id) wanted.add(`${node.id}\n${to.id}`);
+    }
+  }
+
+  const stale: EdgeType[] = [];
+  const existing = new Set<string>();
+  for (const edge of doc.edges) {
+    if (edge.type !== WIKI_RELATION) continue;
+    const key = `${edge.from}\n${edge.to}`;
+    if (wanted.has(key) && !existing.has(key)) existing.add(key);
+    else stale.push(edge);
+  }
+
+  const added: EdgeType[] = [...wanted]
+    .filter(key => !existing.has(key))
+    .map(key => {
+      const [from, to] = key.split('\n');
+      return { id: createId(), from, to, type: WIKI_RELATION };
+    });
+
+  // Документы, созданные до появления вики-ссылок, получают тип вместе с первой связью
+  const missingType =
+    added.length > 0 && !doc.relationTypes.some(t => t.id === WIKI_RELATION)
+      ? DEFAULT_RELATION_TYPES.filter(t => t.id === WIKI_RELATION)
+      : [];
+
+  return batchCommands([
+    { type: 'remove', nodes: [], edges: stale },
+    { type: 'insert', nodes: [], edges: added, relationTypes: missingType },
+  ]);
+};
+
+// Дополняет команду пересчётом производных связей, чтобы они отменялись вместе с ней
+export const withWikiLinks = (doc: GraphDocument, command: GraphCommand) =>
+  batchCommands([command, syncWikiLinks(applyCommand(doc, command))]);
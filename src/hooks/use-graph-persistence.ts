@@ -0,0 +1,160 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import type { GraphDocument, GraphHistory, Viewport } from '@/graph';
+import {
+  loadGraph,
+  saveGraph,
+  readJournal,
+  clearJournal,
+  createJournalWriter,
+  documentOf,
+  type StoredGraph,
+} from '@/lib/graph-storage';
+
+const AUTOSAVE_DELAY = 800;
+
+export type SaveStatus = 'saved' | 'pending' | 'error';
+
+type Snapshot = { doc: GraphDocument; history: GraphHistory; viewport: Viewport };
+
+const sameViewport = (a: Viewport, b: Viewport) =>
+  a.zoom === b.zoom && a.pan.x === b.pan.x && a.pan.y === b.pan.y;
+
+const snapshotOf = (graph: StoredGraph): Snapshot => ({
+  doc: documentOf(graph),
+  history: graph.history,
+  viewport: graph.viewport,
+});
+
+export function useGraphPersistence(
+  graphId: string,
+  { doc, history, viewport }: Snapshot,
+  onRestore: (snapshot: Snapshot) => void
+) {
+  const [ready, setReady] = useState(false);
+  const [missing, setMissing] = useState(false);
+  const [meta, setMeta] = useState<StoredGraph | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [recovery, setRecovery] = useState<StoredGraph | null>(null);
+  const [journalWriter] = useState(createJournalWriter);
+
+  const persistedRef = useRef<Snapshot | null>(null);
+  const pendingRef = useRef<StoredGraph | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    let cancelled = false;
+    setReady(false);
+    setMissing(false);
+    setMeta(null);
+
+    loadGraph(graphId)
+      .then(stored => {
+        if (cancelled) return;
+        if (!stored) {
+          clearJournal(graphId);
+          setMissing(true);
+          return;
+        }
+        const snapshot = snapshotOf(stored);
+        persistedRef.current = snapshot;
+        onRestoreRef.current(snapshot);
+        setMeta(stored);
+
+        const journal = readJournal(graphId);
+        if (journal && journal.updatedAt > stored.updatedAt) {
+          setRecovery(journal);
+        } else if (journal) {
+          clearJournal(graphId);
+        }
+        setReady(true);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setSaveStatus('error');
+        toast.error('Не удалось открыть хранилище, изменения не будут сохранены');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [graphId]);
+
+  useEffect(() => {
+    if (!ready || !meta || recovery) return;
+    const persisted = persistedRef.current;
+    if (
+      persisted &&
+      persisted.doc === doc &&
+      persisted.history === history &&
+      sameViewport(persisted.viewport, viewport)
+    ) return;
+
+    const graph: StoredGraph = {
+      ...meta,
+      ...documentOf(doc),
+      history,
+      viewport,
+      updatedAt: Date.now(),
+    };
+    journalWriter.write(graph);
+    pendingRef.current = graph;
+    setSaveStatus('pending');
+
+    const timer = setTimeout(() => {
+      saveGraph(graph)
+        .then(() => {
+          persistedRef.current = { doc, history, viewport };
+          if (pendingRef.current === graph) pendingRef.current = null;
+          journalWriter.discard(graph);
+          if (readJournal(graphId)?.updatedAt === graph.updatedAt) clearJournal(graphId);
+          setSaveStatus('saved');
+        })
+        .catch(() => setSaveStatus('error'));
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [graphId, doc, history, viewport, ready, meta, recovery, journalWriter]);
+
+  useEffect(() => {
+    const flush = () => {
+      journalWriter.flush();
+      if (pendingRef.current) {
+        saveGraph(pendingRef.current).catch(() => {});
+        pendingRef.current = null;
+      }
+    };
+    // Перетаскивание заканчивается отпусканием указателя: его итог записывается в журнал сразу
+    window.addEventListener('pointerup', journalWriter.flush);
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      window.removeEventListener('pointerup', journalWriter.flush);
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, [graphId, journalWriter]);
+
+  const acceptRecovery = () => {
+    if (!recovery) return;
+    onRestoreRef.current(snapshotOf(recovery));
+    setRecovery(null);
+    toast.success('Несохранённые изменения восстановлены');
+  };
+
+  const discardRecovery = () => {
+    clearJournal(graphId);
+    setRecovery(null);
+  };
+
+  return {
+    ready,
+    missing,
+    name: meta?.name ?? '',
+    createdAt: meta?.createdAt,
+    saveStatus,
+    recovery,
+    acceptRecovery,
+    discardRecovery,
+  };
+}
@@ -0,0 +1,80 @@
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  EMPTY_DOCUMENT,
+  EMPTY_HISTORY,
+  GraphIntegrityError,
+  applyCommand,
+  isEmptyCommand,
+  recordCommand,
+  redoHistory,
+  sealHistory,
+  undoHistory,
+  type GraphCommand,
+  type GraphDocument,
+  type GraphHistory,
+  type RecordOptions,
+} from '@/graph';
+
+type StoreState = {
+  doc: GraphDocument;
+  history: GraphHistory;
+};
+
+export function useGraphStore() {
+  const [state, setState] = useState<StoreState>({ doc: EMPTY_DOCUMENT, history: EMPTY_HISTORY });
+
+  // Несколько команд в одном обработчике должны видеть результат друг друга
+  const stateRef = useRef(state);
+  const commit = (next: StoreState) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const dispatch = (label: string, command: GraphCommand, options?: RecordOptions) => {
+    if (isEmptyCommand(command)) return false;
+    const { doc, history } = stateRef.current;
+    try {
+      commit({
+        doc: applyCommand(doc, command),
+        history: recordCommand(history, label, command, options),
+      });
+      return true;
+    } catch (error) {
+      if (!(error instanceof GraphIntegrityError)) throw error;
+      toast.error('Операция нарушает целостность графа');
+      return false;
+    }
+  };
+
+  const undo = () => {
+    const result = undoHistory(stateRef.current.doc, stateRef.current.history);
+    if (result) commit(result);
+  };
+
+  const redo = () => {
+    const result = redoHistory(stateRef.current.doc, stateRef.current.history);
+    if (result) commit(result);
+  };
+
+  const seal = () => {
+    const history = sealHistory(stateRef.current.history);
+    if (history !== stateRef.current.history) commit({ ...stateRef.current, history });
+  };
+
+  const reset = (doc: GraphDocument, history: GraphHistory = EMPTY_HISTORY) => {
+    commit({ doc, history });
+  };
+
+  return {
+    doc: state.doc,
+    history: state.history,
+    dispatch,
+    undo,
+    redo,
+    seal,
+    reset,
+    canUndo: state.history.past.length > 0,
+    canRedo: state.history.future.length > 0,
+  };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import type { GraphDocument, Positions } from '@/graph';
+
+const DURATION = 500;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// Пока идёт анимация, узлы рисуются по промежуточным позициям,
+// а документ меняется один раз — по её завершении
+export function useLayoutAnimation() {
+  const [positions, setPositions] = useState<Positions | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const animate = (doc: GraphDocument, target: Positions, onDone: () => void) => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    const start = new Map(doc.nodes.map(n => [n.id, { x: n.x, y: n.y }]));
+    const startedAt = performance.now();
+
+    const step = (now: number) => {
+      const t = Math.min((now - startedAt) / DURATION, 1);
+      const k = easeOutCubic(t);
+      const frame: Positions = new Map();
+      for (const [id, to] of target) {
+        const from = start.get(id) ?? to;
+        frame.set(id, { x: from.x + (to.x - from.x) * k, y: from.y + (to.y - from.y) * k });
+      }
+
+      if (t < 1) {
+        setPositions(frame);
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        frameRef.current = null;
+        setPositions(null);
+        onDone();
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  const apply = (doc: GraphDocument): GraphDocument =>
+    positions
+      ? { ...doc, nodes: doc.nodes.map(n => (positions.has(n.id) ? { ...n, ...positions.get(n.id) } : n)) }
+      : doc;
+
+  return { animating: positions !== null, animate, apply };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Size } from '@/graph';
+
+type MeasureRef = (element: HTMLElement | null) => void;
+
+const sameSize = (a: Size | undefined, b: Size) => a?.width === b.width && a?.height === b.height;
+
+// Реальные размеры карточек отслеживаются ResizeObserver: высота зависит от текста,
+// а ширина — от вёрстки. offsetWidth/offsetHeight не учитывают масштаб холста.
+export function useNodeSizes() {
+  const [sizes, setSizes] = useState<ReadonlyMap<string, Size>>(new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const refsRef = useRef(new Map<string, MeasureRef>());
+
+  const observer = () => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        setSizes(prev => {
+          let next: Map<string, Size> | null = null;
+          for (const entry of entries) {
+            const element = entry.target as HTMLElement;
+            const id = element.dataset.nodeId;
+            const size = { width: element.offsetWidth, height: element.offsetHeight };
+            if (!id || sameSize(prev.get(id), size)) continue;
+            next ??= new Map(prev);
+            next.set(id, size);
+          }
+          return next ?? prev;
+        });
+      });
+    }
+    return observerRef.current;
+  };
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Колбэк кэшируется по id, иначе React переподключал бы его при каждой отрисовке
+  const measure = (id: string) => {
+    let ref = refsRef.current.get(id);
+    if (!ref) {
+      let current: HTMLElement | null = null;
+      ref = element => {
+        if (current) observer().unobserve(current);
+        current = element;
+        if (element) {
+          observer().observe(element);
+        } else {
+          refsRef.current.delete(id);
+          setSizes(prev => {
+            if (!prev.has(id)) return prev;
+            const next = new Map(prev);
+            next.delete(id);
+            return next;
+          });
+        }
+      };
+      refsRef.current.set(id, ref);
+    }
+    return ref;
+  };
+
+  return { sizes, measure };
+}
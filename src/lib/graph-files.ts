@@ -0,0 +1,124 @@
+import { toast } from 'sonner';
+import { applyCommand, syncWikiLinks, type GraphDocument } from '@/graph';
+import { CANVAS_FILE_EXTENSION, exportCanvas, importCanvas } from '@/graph/formats/canvas';
+import type { ImportedGraph } from '@/graph/formats/common';
+import { DOT_FILE_EXTENSION, exportDot, importDot } from '@/graph/formats/dot';
+import { exportGexf, GEXF_FILE_EXTENSION, importGexf } from '@/graph/formats/gexf';
+import { exportGraphml, GRAPHML_FILE_EXTENSION, importGraphml } from '@/graph/formats/graphml';
+import {
+  GRAPH_FILE_EXTENSION,
+  GraphFileError,
+  parseGraphFile,
+} from '@/graph/formats/json';
+import { exportMermaid, importMermaid, MERMAID_FILE_EXTENSION } from '@/graph/formats/mermaid';
+import { exportOutline, importOutline, OPML_FILE_EXTENSION, OUTLINE_FILE_EXTENSION } from '@/graph/formats/outline';
+import { createGraph, UNTITLED_GRAPH_NAME } from '@/lib/graph-storage';
+
+// Сторонние форматы: выгрузка только самого графа, без вида и метаданных
+export type ExportFormat = {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (doc: GraphDocument, name: string) => string;
+};
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { label: 'Graphviz (DOT)', extension: DOT_FILE_EXTENSION, mimeType: 'text/vnd.graphviz', serialize: exportDot },
+  { label: 'Mermaid', extension: MERMAID_FILE_EXTENSION, mimeType: 'text/vnd.mermaid', serialize: exportMermaid },
+  { label: 'GraphML (yEd)', extension: GRAPHML_FILE_EXTENSION, mimeType: 'application/graphml+xml', serialize: exportGraphml },
+  { label: 'GEXF (Gephi)', extension: GEXF_FILE_EXTENSION, mimeType: 'application/gexf+xml', serialize: exportGexf },
+  { label: 'JSON Canvas (Obsidian)', extension: CANVAS_FILE_EXTENSION, mimeType: 'application/json', serialize: exportCanvas },
+  { label: 'Markdown (список)', extension: OUTLINE_FILE_EXTENSION, mimeType: 'text/markdown', serialize: exportOutline },
+];
+
+// Импорт сторонних форматов по расширению файла
+const IMPORTERS: Record<string, (source: string) => ImportedGraph> = {
+  [DOT_FILE_EXTENSION]: importDot,
+  '.gv': importDot,
+  [MERMAID_FILE_EXTENSION]: source => importMermaid(source),
+  '.mermaid': source => importMermaid(source),
+  [GRAPHML_FILE_EXTENSION]: importGraphml,
+  [GEXF_FILE_EXTENSION]: importGexf,
+  [CANVAS_FILE_EXTENSION]: importCanvas,
+  [OUTLINE_FILE_EXTENSION]: importOutline,
+  '.markdown': importOutline,
+  '.txt': importOutline,
+  [OPML_FILE_EXTENSION]: importOutline,
+};
+
+const importerFor = (filename: string) => {
+  const extension = filename.match(/\.[^.]+$/)?.[0].toLowerCase();
+  return extension ? IMPORTERS[extension] : undefined;
+};
+
+export const downloadText = (filename: string, text: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const pickFile = (accept: string) =>
+  new Promise<File | null>(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+
+// Запрещённые в именах файлов символы заменяются, пустое имя — на «Без названия»
+export const toFileName = (name: string, extension: string) =>
+  (name.trim().replace(/[\\/:*?"<>|]+/g, '_') || UNTITLED_GRAPH_NAME) + extension;
+
+const stripExtension = (filename: string) =>
+  filename.replace(/\.graph\.json$|\.[^.]+$/i, '');
+
+// Пропущенные при импорте конструкции показываются одним предупреждением
+export const reportImportWarnings = (warnings: string[]) => {
+  if (!warnings.length) return;
+  const details = warnings.slice(0, 5).join('\n');
+  const more = warnings.length > 5 ? `\n…и ещё ${warnings.length - 5}` : '';
+  toast.warning('Часть файла не перенесена', { description: details + more });
+};
+
+export const reportFileError = (error: unknown) => {
+  if (error instanceof GraphFileError) {
+    const details = error.issues.slice(0, 5).join('\n');
+    const more = error.issues.length > 5 ? `\n…и ещё ${error.issues.length - 5}` : '';
+    toast.error(error.message, details ? { description: details + more } : undefined);
+  } else {
+    toast.error('Не удалось открыть файл', error instanceof Error ? { description: error.message } : undefined);
+  }
+};
+
+// Открытый файл всегда становится новым графом в библиотеке
+export const importGraphFile = async () => {
+  const file = await pickFile(
+    [GRAPH_FILE_EXTENSION, '.json', 'application/json', ...Object.keys(IMPORTERS)].join(',')
+  );
+  if (!file) return null;
+
+  try {
+    const source = await file.text();
+    const importer = importerFor(file.name);
+    if (importer) {
+      const { doc, name, warnings } = importer(source);
+      // Вики-связи в сторонних форматах не хранятся и выводятся из текста узлов заново
+      const graph = await createGraph(name || stripExtension(file.name), applyCommand(doc, syncWikiLinks(doc)));
+      toast.success('Граф импортирован из файла');
+      reportImportWarnings(warnings);
+      return graph;
+    }
+    const { doc, viewport, metadata } = parseGraphFile(source);
+    const graph = await createGraph(metadata.name || stripExtension(file.name), doc, viewport);
+    toast.success('Граф открыт из файла');
+    return graph;
+  } catch (error) {
+    reportFileError(error);
+    return null;
+  }
+};
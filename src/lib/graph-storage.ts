@@ -0,0 +1,181 @@
+import {
+  DEFAULT_RELATION_TYPES,
+  DEFAULT_VIEWPORT,
+  EMPTY_DOCUMENT,
+  EMPTY_HISTORY,
+  createId,
+  type GraphDocument,
+  type GraphHistory,
+  type Viewport,
+} from '@/graph';
+
+export type StoredGraph = GraphDocument & {
+  id: string;
+  name: string;
+  history: GraphHistory;
+  viewport: Viewport;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export const UNTITLED_GRAPH_NAME = 'Без названия';
+
+const DB_NAME = 'graph-text-editor';
+const DB_VERSION = 1;
+const GRAPHS_STORE = 'graphs';
+const JOURNAL_PREFIX = 'graph-journal:';
+const JOURNAL_INTERVAL = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GRAPHS_STORE)) {
+          db.createObjectStore(GRAPHS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  const tx = db.transaction(GRAPHS_STORE, mode);
+  return toPromise(run(tx.objectStore(GRAPHS_STORE)));
+};
+
+// Ранние записи хранились без имени, даты создания, истории, вида и реестра типов связей
+const normalize = (graph: StoredGraph): StoredGraph => ({
+  ...graph,
+  relationTypes: graph.relationTypes ?? DEFAULT_RELATION_TYPES,
+  name: graph.name || UNTITLED_GRAPH_NAME,
+  history: graph.history ?? EMPTY_HISTORY,
+  viewport: graph.viewport ?? DEFAULT_VIEWPORT,
+  createdAt: graph.createdAt ?? graph.updatedAt,
+});
+
+// Отделяет содержимое графа от метаданных записи
+export const documentOf = (graph: GraphDocument): GraphDocument => ({
+  nodes: graph.nodes,
+  edges: graph.edges,
+  relationTypes: graph.relationTypes,
+});
+
+export const loadGraph = async (id: string) => {
+  const graph = await withStore('readonly', store => store.get(id));
+  return graph ? normalize(graph as StoredGraph) : null;
+};
+
+export const listGraphs = async () => {
+  const graphs = await withStore('readonly', store => store.getAll());
+  return (graphs as StoredGraph[])
+    .map(normalize)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveGraph = async (graph: StoredGraph) => {
+  await withStore('readwrite', store => store.put(graph));
+};
+
+export const createGraph = async (
+  name: string,
+  content: GraphDocument = EMPTY_DOCUMENT,
+  viewport: Viewport = DEFAULT_VIEWPORT
+) => {
+  const now = Date.now();
+  const graph: StoredGraph = {
+    id: createId(),
+    name,
+    ...documentOf(content),
+    history: EMPTY_HISTORY,
+    viewport,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveGraph(graph);
+  return graph;
+};
+
+export const renameGraph = async (id: string, name: string) => {
+  const graph = await loadGraph(id);
+  if (!graph) throw new Error(`Graph ${id} not found`);
+  await saveGraph({ ...graph, name, updatedAt: Date.now() });
+};
+
+export const duplicateGraph = async (id: string, name: string) => {
+  const graph = await loadGraph(id);
+  if (!graph) throw new Error(`Graph ${id} not found`);
+  return createGraph(name, documentOf(graph));
+};
+
+export const deleteGraph = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+  clearJournal(id);
+};
+
+// Журнал пишется синхронно в localStorage, чтобы пережить закрытие вкладки
+// до срабатывания отложенного сохранения.
+export const writeJournal = (graph: StoredGraph) => {
+  try {
+    localStorage.setItem(JOURNAL_PREFIX + graph.id, JSON.stringify(graph));
+  } catch {
+    // Переполненное хранилище не должно ломать редактирование
+  }
+};
+
+// При перетаскивании граф меняется на каждом кадре, поэтому журнал пишется не чаще раза в секунду;
+// flush записывает отложенный снимок сразу, discard отменяет его, если граф уже сохранён.
+export const createJournalWriter = () => {
+  let pending: StoredGraph | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (pending) writeJournal(pending);
+    pending = null;
+  };
+
+  return {
+    write: (graph: StoredGraph) => {
+      pending = graph;
+      timer ??= setTimeout(flush, JOURNAL_INTERVAL);
+    },
+    discard: (graph: StoredGraph) => {
+      if (pending === graph) pending = null;
+    },
+    flush,
+  };
+};
+
+export const readJournal = (id: string): StoredGraph | null => {
+  try {
+    const raw = localStorage.getItem(JOURNAL_PREFIX + id);
+    return raw ? normalize(JSON.parse(raw) as StoredGraph) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearJournal = (id: string) => {
+  localStorage.removeItem(JOURNAL_PREFIX + id);
+};
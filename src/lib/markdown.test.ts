@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from './markdown';
+
+const text = (source: string) =>
+  parseInline(source).map(part => (part.type === 'text' ? part.text : `<${part.type}>`)).join('');
+
+describe('ссылки в Markdown', () => {
+  it.each(['https://example.com/путь?a=1', 'http://example.com', 'mailto:someone@example.com', 'HTTPS://EXAMPLE.COM'])(
+    'отрисовывает ссылку %s',
+    href => {
+      expect(parseInline(`[текст](${href})`)).toEqual([{ type: 'link', href, children: [{ type: 'text', text: 'текст' }] }]);
+    }
+  );
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(document.cookie)',
+    'data:text/html;base64,PHNjcmlwdD4=',
+    'vbscript:msgbox(1)',
+    '//example.com',
+  ])('оставляет текстом ссылку %s', href => {
+    const source = `[нажми](${href})`;
+    expect(text(source)).toBe(source);
+  });
+
+  it('не пропускает опасную ссылку внутри разметки блоков', () => {
+    const blocks = parseMarkdown('# [заголовок](javascript:alert(1))\n- **[пункт](data:text/html,x)**');
+    expect(JSON.stringify(blocks)).not.toContain('"type":"link"');
+  });
+});
@@ -0,0 +1,201 @@
+import { parseWikiTarget } from '@/graph';
+
+/**
+ * Разбор подмножества Markdown для текста узлов: заголовки, абзацы, списки
+ * (в том числе задачи с флажками), цитаты, блоки кода и строчная разметка —
+ * жирный, курсив, код, ссылки и вики-ссылки [[Заголовок]]. Результат — дерево,
+ * которое отрисовывается React-элементами, поэтому HTML из текста никогда не
+ * попадает в страницу.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'wikilink'; target: string; label: string };
+
+export type MarkdownListItem = {
+  // Номер строки исходного текста — по нему переключается флажок задачи
+  line: number;
+  checked?: boolean;
+  children: MarkdownInline[];
+};
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'code'; text: string };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^\s*```/;
+const TASK_MARK = /^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/;
+
+// Порядок важен: код разбирается раньше остальной разметки, двойные маркеры — раньше одинарных
+const INLINE =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|\[\[([^[\]\n]+)\]\]|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Разрешены только веб-ссылки и почта: javascript: и data: отбрасываются
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const result: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      result.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) result.push({ type: 'text', text: rest.slice(0, match.index) });
+    const [whole, code, strong, strongAlt, em, emAlt, wiki, linkText, href] = match;
+    if (code !== undefined) {
+      result.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      result.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      result.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (wiki !== undefined) {
+      result.push({ type: 'wikilink', ...parseWikiTarget(wiki) });
+    } else if (SAFE_URL.test(href)) {
+      result.push({ type: 'link', href, children: parseInline(linkText) });
+    } else {
+      result.push({ type: 'text', text: whole });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  return result;
+};
+
+// Переводы строк внутри абзаца сохраняются, как в обычном тексте узла
+const parseLines = (lines: string[]) =>
+  lines.flatMap((line, i): MarkdownInline[] => (i === 0 ? parseInline(line) : [{ type: 'break' }, ...parseInline(line)]));
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.split('\n');
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', children: parseLines(paragraph) });
+    if (quote.length) blocks.push({ type: 'quote', children: parseLines(quote) });
+    paragraph = [];
+    quote = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flush();
+      const ordered = /\d/.test(item[1]);
+      const last = blocks[blocks.length - 1];
+      const entry: MarkdownListItem = {
+        line: i,
+        checked: item[2] === undefined ? undefined : item[2] !== ' ',
+        children: parseInline(item[3]),
+      };
+      if (last?.type === 'list' && last.ordered === ordered && lines[i - 1]?.trim()) {
+        last.items.push(entry);
+      } else {
+        blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[1], 10) : 1, items: [entry] });
+      }
+      continue;
+    }
+
+    const quoted = QUOTE.exec(line);
+    if (quoted) {
+      if (paragraph.length) flush();
+      quote.push(quoted[1]);
+      continue;
+    }
+
+    if (quote.length) flush();
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+};
+
+// Переключает флажок задачи в указанной строке, остальной текст не меняется
+export const toggleTask = (source: string, line: number) => {
+  const lines = source.split('\n');
+  lines[line] = lines[line]?.replace(TASK_MARK, (_, prefix: string, mark: string) =>
+    `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+  );
+  return lines.join('\n');
+};
+
+export type MarkdownEdit = { text: string; start: number; end: number };
+
+// Оборачивает выделение маркерами; пустое выделение получает текст-заглушку
+export const wrapSelection = (
+  text: string,
+  start: number,
+  end: number,
+  before: string,
+  after = before,
+  placeholder = 'текст'
+): MarkdownEdit => {
+  const selected = text.slice(start, end) || placeholder;
+  return {
+    text: text.slice(0, start) + before + selected + after + text.slice(end),
+    start: start + before.length,
+    end: start + before.length + selected.length,
+  };
+};
+
+// Добавляет префикс ко всем строкам, которые задевает выделение
+export const prefixLines = (text: string, start: number, end: number, prefix: string): MarkdownEdit => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lines = text.slice(lineStart, end).split('\n');
+  const block = lines.map(line => prefix + line).join('\n');
+  return {
+    text: text.slice(0, lineStart) + block + text.slice(end),
+    start: start + prefix.length,
+    end: end + prefix.length * lines.length,
+  };
+};
+
+// Незакрытая вики-ссылка перед курсором: «[[Раз|» даёт запрос «Раз»
+export const wikiQueryAt = (text: string, caret: number) => {
+  const match = /\[\[([^[\]\n|]*)$/.exec(text.slice(0, caret));
+  return match ? { query: match[1], start: match.index } : null;
+};
+
+// Заменяет набранный запрос полной ссылкой и ставит курсор после неё
+export const completeWikiLink = (text: string, caret: number, title: string): MarkdownEdit | null => {
+  const found = wikiQueryAt(text, caret);
+  if (!found) return null;
+  const rest = text.slice(caret).replace(/^[^[\]\n|]*\]\]/, '');
+  const link = `[[${title}]]`;
+  const end = found.start + link.length;
+  return { text: text.slice(0, found.start) + link + rest, start: end, end };
+};
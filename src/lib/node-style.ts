@@ -0,0 +1,37 @@
+import type { NodeShape } from '@/graph';
+
+export const DEFAULT_NODE_SHAPE: NodeShape = 'rounded';
+
+export const STICKY_FILL = '#fef08a';
+
+export const NODE_SHAPES: { value: NodeShape; label: string; icon: string }[] = [
+  { value: 'rectangle', label: 'Прямоугольник', icon: 'Square' },
+  { value: 'rounded', label: 'Скруглённый', icon: 'RectangleHorizontal' },
+  { value: 'ellipse', label: 'Эллипс', icon: 'Circle' },
+  { value: 'diamond', label: 'Ромб', icon: 'Diamond' },
+  { value: 'sticky', label: 'Стикер', icon: 'StickyNote' },
+  { value: 'group', label: 'Группа', icon: 'SquareDashed' },
+];
+
+// Ромб рисуется SVG-многоугольником, у остальных форм рамку и фон задаёт CSS
+export const SHAPE_CLASSES: Record<NodeShape, string> = {
+  rectangle: 'rounded-none border',
+  rounded: 'rounded-lg border',
+  ellipse: 'rounded-[50%] border',
+  diamond: '',
+  sticky: 'rounded-sm border shadow-md text-neutral-900',
+  group: 'rounded-lg border-2 border-dashed',
+};
+
+// Текст не должен выходить за скруглённые и скошенные края
+export const SHAPE_CONTENT_CLASSES: Record<NodeShape, string> = {
+  rectangle: 'p-2 md:p-3',
+  rounded: 'p-2 md:p-3',
+  ellipse: 'px-5 py-3 md:px-6 md:py-4 text-center',
+  diamond: 'px-8 py-5 md:px-9 md:py-6 text-center',
+  sticky: 'p-2 md:p-3',
+  group: 'p-2 md:p-3 font-semibold',
+};
+
+// Заливка группы полупрозрачна, чтобы под ней были видны связи
+export const groupBackground = (fill?: string) => (fill ? `${fill}33` : undefined);
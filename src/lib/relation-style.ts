@@ -0,0 +1,35 @@
+import type { DashStyle, RelationType } from '@/graph';
+
+export const DASH_PATTERNS: Record<DashStyle, string | undefined> = {
+  solid: undefined,
+  dashed: '8 4',
+  dotted: '2 4',
+};
+
+export const DASH_LABELS: Record<DashStyle, string> = {
+  solid: 'Сплошная',
+  dashed: 'Штрих',
+  dotted: 'Пунктир',
+};
+
+export const ARROWHEAD_LABELS: Record<RelationType['arrowhead'], string> = {
+  triangle: 'Треугольник',
+  open: 'Открытая',
+  diamond: 'Ромб',
+  circle: 'Круг',
+};
+
+export const RELATION_PALETTE = ['#0ea5e9', '#22c55e', '#f97316', '#ef4444', '#eab308', '#ec4899', '#14b8a6'];
+
+const FALLBACK_COLOR = '#6b7280';
+
+// Идентификатор типа может прийти из импортированного файла, а в url(#…) допустимы не все символы.
+// Остальные символы, включая сам «_», записываются кодом между «_», чтобы разные типы не совпали
+export const relationMarkerId = (id: string) =>
+  `relation-marker-${id.replace(/[^A-Za-z0-9-]/g, c => `_${c.charCodeAt(0).toString(16)}_`)}`;
+
+export const relationStroke = (type?: RelationType) => ({
+  stroke: type?.color ?? FALLBACK_COLOR,
+  strokeDasharray: type ? DASH_PATTERNS[type.dash] : undefined,
+  markerEnd: type?.directed ? `url(#${relationMarkerId(type.id)})` : undefined,
+});
@@ -0,0 +1,9 @@
+import { useParams } from 'react-router-dom';
+import GraphEditor from '@/components/GraphEditor';
+
+const Graph = () => {
+  const { graphId } = useParams<{ graphId: string }>();
+  return <GraphEditor key={graphId} graphId={graphId!} />;
+};
+
+export default Graph;
@@ -1,7 +1,7 @@
-import GraphEditor from '@/components/GraphEditor';
+import GraphLibrary from '@/components/GraphLibrary';
 
 const Index = () => {
-  return <GraphEditor />;
+  return <GraphLibrary />;
 };
 
 export default Index;
\ No newline at end of file